@@ -0,0 +1,100 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { render, fireEvent, screen } from '@testing-library/react-native';
+import { CountryPicker } from '../src/components/CountryPicker';
+
+describe('CountryPicker', () => {
+    it('prompts for a country until one is picked', () => {
+        const onSelect = jest.fn();
+        render(<CountryPicker onSelect={onSelect} allowedCountries={['DE', 'FR']} />);
+
+        const trigger = screen.getByRole('combobox', { name: 'Select country' });
+        fireEvent.press(trigger);
+        fireEvent.press(screen.getByText('France'));
+
+        expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ iso2: 'FR' }));
+        expect(screen.queryByPlaceholderText('Search...')).toBeNull();
+    });
+
+    it('shows the controlled value', () => {
+        const { rerender } = render(<CountryPicker value="DE" onSelect={jest.fn()} />);
+        expect(screen.getByText('+49')).toBeTruthy();
+
+        rerender(<CountryPicker value="FR" onSelect={jest.fn()} />);
+        expect(screen.getByText('+33')).toBeTruthy();
+    });
+
+    it('hides calling codes for non-phone forms', () => {
+        render(
+            <CountryPicker
+                value="DE"
+                onSelect={jest.fn()}
+                showCallingCode={false}
+                allowedCountries={['DE', 'FR']}
+                pickerType="modal"
+            />
+        );
+
+        const trigger = screen.getByRole('combobox');
+        expect(trigger.props.accessibilityLabel).toBe('Country, Germany');
+        expect(screen.getByText('Germany')).toBeTruthy();
+
+        fireEvent.press(trigger);
+        expect(screen.getByLabelText('France')).toBeTruthy();
+        expect(screen.queryByText('+33')).toBeNull();
+    });
+
+    it('filters and pins countries like the phone input', () => {
+        render(
+            <CountryPicker
+                value="DE"
+                onSelect={jest.fn()}
+                allowedCountries={['DE', 'FR', 'TR', 'US']}
+                excludedCountries={['US']}
+                preferredCountries={['TR']}
+                renderCountryItem={({ country, isSelected }) => <Text>{`${country.iso2}${isSelected ? ' ✓' : ''}`}</Text>}
+            />
+        );
+
+        fireEvent.press(screen.getByRole('combobox'));
+
+        expect(screen.getByRole('header', { name: 'Preferred' })).toBeTruthy();
+        expect(screen.getByText('DE ✓')).toBeTruthy();
+        expect(screen.getByText('FR')).toBeTruthy();
+        expect(screen.queryByText('US')).toBeNull();
+    });
+
+    it('follows a controlled open state', () => {
+        const onOpenChange = jest.fn();
+        const { rerender } = render(
+            <CountryPicker value="DE" onSelect={jest.fn()} isOpen={false} onOpenChange={onOpenChange} />
+        );
+
+        fireEvent.press(screen.getByRole('combobox'));
+        expect(onOpenChange).toHaveBeenCalledWith(true);
+        expect(screen.queryByPlaceholderText('Search...')).toBeNull();
+
+        rerender(<CountryPicker value="DE" onSelect={jest.fn()} isOpen onOpenChange={onOpenChange} />);
+        expect(screen.getByPlaceholderText('Search...')).toBeTruthy();
+    });
+
+    it('passes an empty selection to renderTrigger', () => {
+        render(
+            <CountryPicker
+                onSelect={jest.fn()}
+                renderTrigger={({ country, isOpen }) => <Text>{`${country?.name ?? 'none'} ${isOpen ? 'open' : 'closed'}`}</Text>}
+            />
+        );
+
+        fireEvent.press(screen.getByText('none closed'));
+        expect(screen.getByText('none open')).toBeTruthy();
+    });
+
+    it('does not open when disabled', () => {
+        const onOpenChange = jest.fn();
+        render(<CountryPicker value="DE" onSelect={jest.fn()} onOpenChange={onOpenChange} disabled />);
+
+        fireEvent.press(screen.getByRole('combobox'));
+        expect(onOpenChange).not.toHaveBeenCalled();
+    });
+});
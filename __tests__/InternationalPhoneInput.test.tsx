@@ -1,6 +1,10 @@
 import React from 'react';
+import { AccessibilityInfo, StyleSheet, Text, TextInput, View } from 'react-native';
 import { render, fireEvent, act } from '@testing-library/react-native';
-import { InternationalPhoneInput } from '../src/components/InternationalPhoneInput';
+import type { ReactTestRendererJSON } from 'react-test-renderer';
+import { InternationalPhoneInput, InternationalPhoneInputRef } from '../src/components/InternationalPhoneInput';
+import { createMemoryStorage } from '../src/utils/recentCountries';
+import * as locales from '../src/data/locales';
 
 // Mocks
 const mockOnChange = jest.fn();
@@ -40,6 +44,164 @@ describe('InternationalPhoneInput', () => {
         expect(lastCall[1]).toBe('US'); // ISO2
     });
 
+    it('reports detailed number information via onChangeDetails', () => {
+        const onChangeDetails = jest.fn();
+        const { getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                onChangeDetails={onChangeDetails}
+                defaultCountry="GB"
+            />
+        );
+
+        fireEvent.changeText(getByPlaceholderText('Phone Number'), '07400123456');
+
+        const details = onChangeDetails.mock.calls[onChangeDetails.mock.calls.length - 1][0];
+        expect(details).toMatchObject({
+            iso2: 'GB',
+            callingCode: '44',
+            digits: '07400123456',
+            e164: '+447400123456',
+            national: '07400 123456',
+            international: '+44 7400 123456',
+            rfc3966: 'tel:+447400123456',
+            isValid: true,
+            isPossible: true,
+            type: 'MOBILE',
+        });
+    });
+
+    it('rejects disallowed number types via allowedNumberTypes', () => {
+        const onChangeDetails = jest.fn();
+        const ref = React.createRef<InternationalPhoneInputRef>();
+        const { getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                ref={ref}
+                value=""
+                onChange={mockOnChange}
+                onChangeDetails={onChangeDetails}
+                defaultCountry="GB"
+                allowedNumberTypes={['MOBILE']}
+            />
+        );
+
+        const input = getByPlaceholderText('Phone Number');
+
+        // London landline
+        fireEvent.changeText(input, '02079460958');
+        let details = onChangeDetails.mock.calls[onChangeDetails.mock.calls.length - 1][0];
+        expect(details.type).toBe('FIXED_LINE');
+        expect(details.isValid).toBe(false);
+        expect(details.validationError).toBe('DISALLOWED_TYPE');
+        expect(ref.current?.isValid()).toBe(false);
+
+        // UK mobile
+        fireEvent.changeText(input, '07400123456');
+        details = onChangeDetails.mock.calls[onChangeDetails.mock.calls.length - 1][0];
+        expect(details.isValid).toBe(true);
+        expect(details.validationError).toBeUndefined();
+        expect(ref.current?.isValid()).toBe(true);
+    });
+
+    it('accepts FIXED_LINE_OR_MOBILE numbers when mobile is allowed', () => {
+        const ref = React.createRef<InternationalPhoneInputRef>();
+        const { getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                ref={ref}
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                allowedNumberTypes={['MOBILE']}
+            />
+        );
+
+        fireEvent.changeText(getByPlaceholderText('Phone Number'), '2015550123');
+        expect(ref.current?.isValid()).toBe(true);
+    });
+
+    it('returns structured validation reasons via validate() and onValidationChange', () => {
+        const onValidationChange = jest.fn();
+        const ref = React.createRef<InternationalPhoneInputRef>();
+        const { getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                ref={ref}
+                value=""
+                onChange={mockOnChange}
+                onValidationChange={onValidationChange}
+                defaultCountry="US"
+            />
+        );
+
+        expect(ref.current?.validate()).toEqual({ isValid: false, reason: 'NOT_A_NUMBER' });
+        expect(onValidationChange).not.toHaveBeenCalled();
+
+        const input = getByPlaceholderText('Phone Number');
+
+        fireEvent.changeText(input, '202555');
+        expect(ref.current?.validate()).toEqual({ isValid: false, reason: 'TOO_SHORT' });
+        expect(onValidationChange).toHaveBeenLastCalledWith({ isValid: false, reason: 'TOO_SHORT' });
+
+        fireEvent.changeText(input, '20255501234567');
+        expect(ref.current?.validate().reason).toBe('TOO_LONG');
+
+        fireEvent.changeText(input, '1234567890');
+        expect(ref.current?.validate().reason).toBe('INVALID_NUMBER');
+
+        fireEvent.changeText(input, '2025550123');
+        expect(ref.current?.validate()).toEqual({ isValid: true, reason: undefined });
+        expect(onValidationChange).toHaveBeenLastCalledWith({ isValid: true, reason: undefined });
+    });
+
+    it('shows errorMessages for the current reason under the field once the user has typed', () => {
+        const { getByPlaceholderText, queryByText, getByRole } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                showErrorText
+                errorMessages={{ TOO_SHORT: 'Too short', INVALID_NUMBER: 'Not a valid number' }}
+            />
+        );
+
+        expect(queryByText('Too short')).toBeNull();
+
+        const input = getByPlaceholderText('Phone Number');
+        fireEvent.changeText(input, '202555');
+
+        expect(getByRole('alert').props.children).toBe('Too short');
+        expect(input.props.accessibilityHint).toBe('Too short');
+
+        fireEvent.changeText(input, '2025550123');
+        expect(queryByText('Too short')).toBeNull();
+        expect(input.props.accessibilityHint).toBeUndefined();
+    });
+
+    it('shows an explicit error with errorStyle and the theme error color', () => {
+        const { getByText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                error="Required"
+                errorStyle={{ fontSize: 12 }}
+                showErrorText
+            />
+        );
+
+        expect(StyleSheet.flatten(getByText('Required').props.style)).toMatchObject({ fontSize: 12, color: '#EF4444' });
+    });
+
+    it('only marks the field by default, keeping it the single root', () => {
+        const { queryByText, getByPlaceholderText, toJSON } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} error="Required" containerStyle={{ margin: 4 }} />
+        );
+
+        expect(queryByText('Required')).toBeNull();
+        expect(getByPlaceholderText('Phone Number').props.accessibilityHint).toBe('Required');
+        const root = toJSON() as ReactTestRendererJSON;
+        expect(StyleSheet.flatten(root.props.style)).toMatchObject({ margin: 4, borderColor: '#EF4444' });
+    });
+
     it('allows selecting a country from dropdown', async () => {
         const { getByText, getByPlaceholderText, queryByText } = render(
             <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="US" />
@@ -67,6 +229,161 @@ describe('InternationalPhoneInput', () => {
         expect(getByText('+90')).toBeTruthy();
     });
 
+    it('uses bundled labels for the active locale', () => {
+        const { getByPlaceholderText, getByText, getByLabelText } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="TR" locale="tr" />
+        );
+
+        expect(getByLabelText('Telefon numarası')).toBeTruthy();
+        expect(getByPlaceholderText('Telefon Numarası')).toBeTruthy();
+
+        fireEvent.press(getByText('+90'));
+        fireEvent.changeText(getByPlaceholderText('Ara...'), 'zzz');
+        expect(getByText('Ülke bulunamadı')).toBeTruthy();
+    });
+
+    it('lets labels and placeholder props override bundled strings', () => {
+        const { getByPlaceholderText, getByText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                locale="de"
+                placeholder="Nummer"
+                labels={{ searchPlaceholder: 'Land suchen', noResults: 'Nichts' }}
+            />
+        );
+
+        expect(getByPlaceholderText('Nummer')).toBeTruthy();
+        fireEvent.press(getByText('+1'));
+        fireEvent.changeText(getByPlaceholderText('Land suchen'), 'zzz');
+        expect(getByText('Nichts')).toBeTruthy();
+    });
+
+    it('exposes roles, labels and expanded state on the picker trigger', () => {
+        const { getByRole, getByLabelText } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="TR" />
+        );
+
+        const trigger = getByRole('combobox');
+        expect(trigger.props.accessibilityLabel).toBe('Country code, Turkey, plus 90');
+        expect(trigger.props.accessibilityState).toMatchObject({ expanded: false });
+        expect(getByLabelText('Phone number')).toBeTruthy();
+
+        fireEvent.press(trigger);
+        expect(getByRole('combobox').props.accessibilityState).toMatchObject({ expanded: true });
+    });
+
+    it('marks country rows as options with selected state', () => {
+        const { getByText, getByRole, getByLabelText, UNSAFE_getByProps } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="TR"
+                allowedCountries={['TR', 'US']}
+            />
+        );
+
+        fireEvent.press(getByText('+90'));
+
+        // Plain Views are not accessibility elements, so `getByRole` skips the list container
+        expect(UNSAFE_getByProps({ accessibilityRole: 'list' })).toBeTruthy();
+        expect(getByRole('search').props.accessibilityLabel).toBe('Search countries');
+
+        const turkey = getByLabelText('Turkey, plus 90');
+        const us = getByLabelText('United States, plus 1');
+        expect(turkey.props.role).toBe('option');
+        expect(turkey.props.accessibilityState).toMatchObject({ selected: true });
+        expect(us.props.accessibilityState).toMatchObject({ selected: false });
+    });
+
+    it('moves screen-reader focus into the search field and back to the trigger', () => {
+        const setFocus = AccessibilityInfo.sendAccessibilityEvent as jest.Mock;
+        setFocus.mockClear();
+        const { getByRole } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="TR" />
+        );
+
+        expect(setFocus).not.toHaveBeenCalled();
+
+        fireEvent.press(getByRole('combobox'));
+        expect(setFocus).toHaveBeenCalledTimes(1);
+        expect(setFocus.mock.calls[0][0].props.accessibilityLabel).toBe('Search countries');
+
+        fireEvent.press(getByRole('combobox'));
+        expect(setFocus).toHaveBeenCalledTimes(2);
+        expect(setFocus.mock.calls[1][1]).toBe('focus');
+    });
+
+    it('mirrors layout for right-to-left while keeping calling codes left-to-right', () => {
+        const { getByText, getByRole, getByLabelText, toJSON } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="SA"
+                direction="rtl"
+                allowedCountries={['SA', 'AE']}
+            />
+        );
+
+        const container = toJSON() as ReactTestRendererJSON;
+        expect(StyleSheet.flatten(container.props.style)).toMatchObject({ direction: 'rtl' });
+        expect(getByText('\u2066+966\u2069')).toBeTruthy();
+        expect(StyleSheet.flatten(getByLabelText('Phone number').props.style)).toMatchObject({
+            textAlign: 'right',
+            writingDirection: 'ltr',
+        });
+
+        fireEvent.press(getByRole('combobox'));
+        expect(getByText('\u2066+971\u2069')).toBeTruthy();
+    });
+
+    it('renders custom trigger, rows, search and empty state via render props', () => {
+        const { getByText, getByPlaceholderText, queryByText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                allowedCountries={['US', 'CA']}
+                renderTrigger={({ country, isOpen }) => <Text>{`${country.iso2} ${isOpen ? 'open' : 'closed'}`}</Text>}
+                renderCountryItem={({ country, isSelected }) => (
+                    <Text>{`${country.name}${isSelected ? ' ✓' : ''}`}</Text>
+                )}
+                renderSearch={({ value, onChangeText }) => (
+                    <TextInput placeholder="Find" value={value} onChangeText={onChangeText} />
+                )}
+                renderEmpty={({ query }) => <Text>{`Nothing for ${query}`}</Text>}
+            />
+        );
+
+        fireEvent.press(getByText('US closed'));
+        expect(getByText('US open')).toBeTruthy();
+        expect(getByText('United States ✓')).toBeTruthy();
+        expect(getByText('Canada')).toBeTruthy();
+
+        fireEvent.changeText(getByPlaceholderText('Find'), 'xyz');
+        expect(getByText('Nothing for xyz')).toBeTruthy();
+        expect(queryByText('Canada')).toBeNull();
+    });
+
+    it('uses renderFlag and renderCallingCode inside the default trigger', () => {
+        const renderFlag = jest.fn(({ country, variant }) => <Text>{`${variant}:${country.iso2}`}</Text>);
+        const { getByText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="TR"
+                allowedCountries={['TR']}
+                renderFlag={renderFlag}
+                renderCallingCode={(country) => <Text>{`code ${country.callingCode}`}</Text>}
+            />
+        );
+
+        expect(getByText('trigger:TR')).toBeTruthy();
+        fireEvent.press(getByText('code 90'));
+        expect(getByText('item:TR')).toBeTruthy();
+    });
+
     it('filters countries via allowedCountries prop', () => {
         const { getByText, queryByText, getByPlaceholderText } = render(
             <InternationalPhoneInput
@@ -83,6 +400,254 @@ describe('InternationalPhoneInput', () => {
         expect(queryByText('Turkey')).toBeNull();
     });
 
+    it('shows recent countries in their own section, without preferred or excluded ones', async () => {
+        const storage = createMemoryStorage();
+        storage.setItem('recent', JSON.stringify(['DE', 'US', 'FR', 'TR']));
+
+        const { getByText, getAllByText, getByPlaceholderText, queryByText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                preferredCountries={['US']}
+                excludedCountries={['FR']}
+                recentCountries={{ storage, storageKey: 'recent' }}
+            />
+        );
+        await act(async () => { });
+
+        fireEvent.press(getByText('+1'));
+
+        expect(getByText('Preferred')).toBeTruthy();
+        expect(getByText('Recent')).toBeTruthy();
+        expect(getAllByText('Germany')).toHaveLength(2);
+        expect(getAllByText('Turkey')).toHaveLength(2);
+        expect(getAllByText('United States')).toHaveLength(1);
+        expect(queryByText('France')).toBeNull();
+
+        // Searching shows a single flat list
+        fireEvent.changeText(getByPlaceholderText('Search...'), 'germ');
+        expect(queryByText('Recent')).toBeNull();
+        expect(getAllByText('Germany')).toHaveLength(1);
+    });
+
+    it('builds the country list once for the field and its picker', () => {
+        const localize = jest.spyOn(locales, 'localizeCountries');
+        render(<InternationalPhoneInput value="" onChange={mockOnChange} locale="de" />);
+
+        expect(localize).toHaveBeenCalledTimes(1);
+        localize.mockRestore();
+    });
+
+    it('groups countries under letter headers and jumps via the alphabet index', () => {
+        const { scrollToIndex } = jest.requireMock('@shopify/flash-list');
+        scrollToIndex.mockClear();
+
+        const { getByText, getByRole, getByLabelText, queryByLabelText, UNSAFE_getByType } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="TR"
+                allowedCountries={['TR', 'DE', 'US', 'CA', 'GB']}
+                preferredCountries={['TR']}
+                showAlphabetIndex
+            />
+        );
+
+        fireEvent.press(getByText('+90'));
+
+        // Preferred (0-1), C (2-3), G (4-5), U (6-8); Turkey is only listed under Preferred
+        const { FlashList } = jest.requireMock('@shopify/flash-list');
+        expect(UNSAFE_getByType(FlashList).props.stickyHeaderIndices).toEqual([0, 2, 4, 6]);
+        expect(getByText('Preferred')).toBeTruthy();
+        expect(getByRole('header', { name: 'G' })).toBeTruthy();
+        expect(queryByLabelText('Jump to T')).toBeNull();
+
+        fireEvent.press(getByLabelText('Jump to U'));
+        expect(scrollToIndex).toHaveBeenLastCalledWith({ index: 6, animated: false });
+    });
+
+    it('opens the country list in a bottom sheet', () => {
+        const { getByText, getByPlaceholderText, queryByPlaceholderText, getByLabelText } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="US" pickerType="sheet" />
+        );
+
+        fireEvent.press(getByText('+1'));
+        expect(getByLabelText('Close country picker')).toBeTruthy();
+
+        const search = getByPlaceholderText('Search...');
+        fireEvent(search, 'focus');
+        fireEvent.changeText(search, 'turk');
+        fireEvent.press(getByText('Turkey'));
+
+        expect(queryByPlaceholderText('Search...')).toBeNull();
+        expect(getByText('+90')).toBeTruthy();
+    });
+
+    it('opens a full-screen picker with a title and close button', () => {
+        const { getByText, getByRole, getByLabelText, queryByRole, getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                pickerType="fullscreen"
+                locale="de"
+                renderEmpty={({ query }) => <Text>nothing for {query}</Text>}
+            />
+        );
+
+        fireEvent.press(getByText('+1'));
+        expect(getByRole('header', { name: 'Land auswählen' })).toBeTruthy();
+
+        fireEvent.changeText(getByPlaceholderText('Suchen...'), 'zzz');
+        expect(getByText('nothing for zzz')).toBeTruthy();
+
+        fireEvent.press(getByLabelText('Länderauswahl schließen'));
+        expect(queryByRole('header', { name: 'Land auswählen' })).toBeNull();
+    });
+
+    it('places the dropdown above the input when there is no room below', () => {
+        // Jest's window is 1334pt tall; the trigger sits near the bottom
+        const { measureInWindow } = jest.requireActual('react-native/jest/MockNativeMethods').default;
+        const defaultMeasure = measureInWindow.getMockImplementation();
+        measureInWindow.mockImplementation((callback: (...rect: number[]) => void) => callback(16, 1200, 300, 56));
+
+        const { getByText, getByPlaceholderText, UNSAFE_getAllByType } = render(
+            <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="US" modalHeight={300} />
+        );
+
+        fireEvent.press(getByText('+1'));
+        expect(getByPlaceholderText('Search...')).toBeTruthy();
+
+        // 300pt tall, ending 4pt above the trigger
+        const dropdown = UNSAFE_getAllByType(View).find(view => StyleSheet.flatten(view.props.style)?.top === 896);
+        expect(StyleSheet.flatten(dropdown?.props.style)).toMatchObject({ left: 16, width: 300 });
+
+        measureInWindow.mockImplementation(defaultMeasure);
+    });
+
+    it('highlights the row that receives focus from a D-pad or native keyboard', () => {
+        const { getByText, getByLabelText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                allowedCountries={['US', 'CA', 'TR']}
+                renderCountryItem={({ country, isHighlighted }) => <Text>{`${country.iso2}${isHighlighted ? '*' : ''}`}</Text>}
+            />
+        );
+
+        fireEvent.press(getByText('+1'));
+        const row = getByLabelText('Turkey, plus 90');
+        expect(row.props.focusable).toBe(true);
+
+        fireEvent(row, 'focus');
+        expect(getByText('TR*')).toBeTruthy();
+        expect(getByText('US')).toBeTruthy();
+    });
+
+    // Key events as react-native-web reports them
+    it('navigates the picker with arrow keys, Enter, Escape and type-ahead', () => {
+        const focus = jest.spyOn(TextInput.prototype, 'focus');
+        const { getByText, queryByText, getByPlaceholderText } = render(
+            <InternationalPhoneInput
+                value=""
+                onChange={mockOnChange}
+                defaultCountry="US"
+                allowedCountries={['US', 'CA', 'CL', 'TR']}
+                renderCountryItem={({ country, isHighlighted }) => <Text>{`${country.iso2}${isHighlighted ? '*' : ''}`}</Text>}
+            />
+        );
+        const keyPress = (input: ReturnType<typeof getByPlaceholderText>, key: string) =>
+            fireEvent(input, 'keyPress', { nativeEvent: { key } });
+
+        fireEvent.press(getByText('+1'));
+        const search = getByPlaceholderText('Search...');
+        expect(getByText('US*')).toBeTruthy();
+
+        keyPress(search, 'ArrowUp');
+        expect(getByText('TR*')).toBeTruthy();
+        keyPress(search, 'Home');
+        expect(getByText('CA*')).toBeTruthy();
+        keyPress(search, 'ArrowDown');
+        expect(getByText('CL*')).toBeTruthy();
+
+        keyPress(search, 'Enter');
+        expect(queryByText('CL')).toBeNull();
+        expect(getByText('+56')).toBeTruthy();
+        expect(focus).toHaveBeenCalled();
+
+        // Letters typed into the phone field jump through the open list
+        const phone = getByPlaceholderText('Phone Number');
+        fireEvent.press(getByText('+56'));
+        keyPress(phone, 't');
+        expect(getByText('TR*')).toBeTruthy();
+
+        keyPress(phone, 'Escape');
+        expect(queryByText('TR')).toBeNull();
+        focus.mockRestore();
+    });
+
+    it('works uncontrolled with defaultValue and ref value access', () => {
+        const ref = React.createRef<InternationalPhoneInputRef>();
+        const { getByPlaceholderText } = render(
+            <InternationalPhoneInput ref={ref} defaultValue="+12025550123" defaultCountry="TR" />
+        );
+
+        const input = getByPlaceholderText('Phone Number');
+        expect(input.props.value).toBe('(202) 555-0123');
+        expect(ref.current?.getValue()).toBe('+12025550123');
+        expect(ref.current?.getFormatted('INTERNATIONAL')).toBe('+1 202 555 0123');
+
+        fireEvent.changeText(input, '2025550');
+        expect(ref.current?.getValue()).toBe('+12025550');
+        expect(ref.current?.getE164()).toBeUndefined();
+
+        act(() => {
+            ref.current?.clear();
+        });
+        expect(input.props.value).toBe('');
+        expect(ref.current?.getValue()).toBe('');
+        expect(ref.current?.getFormatted('E.164')).toBe('');
+    });
+
+    it('reports ref setValue through onChange when controlled', () => {
+        const ref = React.createRef<InternationalPhoneInputRef>();
+        const Controlled = () => {
+            const [value, setValue] = React.useState('');
+            return (
+                <InternationalPhoneInput
+                    ref={ref}
+                    value={value}
+                    onChange={(next, iso2) => {
+                        setValue(next);
+                        mockOnChange(next, iso2);
+                    }}
+                    defaultCountry="US"
+                />
+            );
+        };
+        const { getByPlaceholderText } = render(<Controlled />);
+
+        act(() => {
+            ref.current?.setValue('+905321234567');
+        });
+
+        expect(mockOnChange).toHaveBeenLastCalledWith('+905321234567', 'TR');
+        expect(getByPlaceholderText('Phone Number').props.value).toBe('0532 123 45 67');
+        expect(ref.current?.getE164()).toBe('+905321234567');
+        expect(ref.current?.getFormatted('NATIONAL')).toBe('0532 123 45 67');
+
+        act(() => {
+            ref.current?.clear();
+        });
+
+        // The parent stores the same '' that getValue() reports
+        expect(mockOnChange).toHaveBeenLastCalledWith('', 'TR');
+        expect(ref.current?.getValue()).toBe('');
+        expect(getByPlaceholderText('Phone Number').props.value).toBe('');
+    });
+
     it('validates strictly excluded characters', () => {
         const { getByPlaceholderText } = render(
             <InternationalPhoneInput value="" onChange={mockOnChange} defaultCountry="US" />
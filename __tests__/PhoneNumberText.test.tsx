@@ -0,0 +1,107 @@
+import React from 'react';
+import { Linking } from 'react-native';
+import { render, fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { PhoneNumberText, PhoneNumberLabel } from '../src/components/PhoneNumberText';
+
+const mockSetStringAsync = jest.fn(() => Promise.resolve(true));
+
+jest.mock('expo-clipboard', () => ({
+    setStringAsync: (text: string) => mockSetStringAsync(text),
+}), { virtual: true });
+
+describe('PhoneNumberText', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('uses the national format for numbers from the viewer\'s country', () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" />);
+        expect(screen.getByText('0532 123 45 67')).toBeTruthy();
+    });
+
+    it('uses the international format for foreign numbers', () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="US" />);
+        expect(screen.getByText('+90 532 123 45 67')).toBeTruthy();
+    });
+
+    it('treats numbers sharing a calling code as foreign', () => {
+        render(<PhoneNumberText value="+18765551234" viewerCountry="US" />);
+        expect(screen.getByText('+1 876 555 1234')).toBeTruthy();
+    });
+
+    it('honours an explicit format', () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" format="E.164" />);
+        expect(screen.getByText('+905321234567')).toBeTruthy();
+    });
+
+    it('shows unparseable values as given', () => {
+        render(<PhoneNumberText value="call reception" />);
+        expect(screen.getByText('call reception')).toBeTruthy();
+    });
+
+    it('is not pressable without actions', () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" />);
+        expect(screen.queryByRole('link')).toBeNull();
+        expect(screen.queryByRole('button')).toBeNull();
+    });
+
+    it('calls the number on press', async () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" pressAction="call" />);
+
+        const link = screen.getByRole('link', { name: '0532 123 45 67' });
+        expect(link.props.accessibilityHint).toBe('Calls this number');
+
+        fireEvent.press(link);
+        await waitFor(() => expect(Linking.openURL).toHaveBeenCalledWith('tel:+905321234567'));
+    });
+
+    it('copies the E.164 number with onCopy', () => {
+        const onCopy = jest.fn();
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" longPressAction="copy" onCopy={onCopy} />);
+
+        fireEvent(screen.getByRole('button'), 'longPress');
+        return waitFor(() => expect(onCopy).toHaveBeenCalledWith('+905321234567'));
+    });
+
+    it('falls back to expo-clipboard when installed', async () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="TR" pressAction="copy" locale="de" />);
+
+        const button = screen.getByRole('button');
+        expect(button.props.accessibilityHint).toBe('Kopiert diese Nummer');
+
+        fireEvent.press(button);
+        await waitFor(() => expect(mockSetStringAsync).toHaveBeenCalledWith('+905321234567'));
+    });
+
+    it('isolates the number inside right-to-left text', () => {
+        render(<PhoneNumberText value="+905321234567" viewerCountry="US" direction="rtl" />);
+        expect(screen.getByText('⁦+90 532 123 45 67⁩')).toBeTruthy();
+    });
+});
+
+describe('PhoneNumberLabel', () => {
+    it('shows the number\'s flag next to the number', () => {
+        render(<PhoneNumberLabel value="+18765551234" viewerCountry="JM" />);
+
+        expect(screen.getByLabelText('Jamaica')).toBeTruthy();
+        expect(screen.getByText('(876) 555-1234')).toBeTruthy();
+    });
+
+    it('passes the label variant to renderFlag', () => {
+        const renderFlag = jest.fn(() => null);
+        render(<PhoneNumberLabel value="+905321234567" renderFlag={renderFlag} />);
+
+        expect(renderFlag).toHaveBeenCalledWith(expect.objectContaining({
+            country: expect.objectContaining({ iso2: 'TR' }),
+            variant: 'label',
+        }));
+    });
+
+    it('omits the flag when no country can be determined', () => {
+        const renderFlag = jest.fn(() => null);
+        render(<PhoneNumberLabel value="12345" renderFlag={renderFlag} />);
+
+        expect(renderFlag).not.toHaveBeenCalled();
+        expect(screen.getByText('12345')).toBeTruthy();
+    });
+});
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { render, fireEvent, act } from '@testing-library/react-native';
+import { PickerSheet, getSnapTarget } from '../src/components/PickerSheet';
+import { lightTheme } from '../src/theme/theme';
+
+describe('PickerSheet', () => {
+    describe('getSnapTarget', () => {
+        const snaps = [400, 720];
+
+        it('settles at the nearest snap point', () => {
+            expect(getSnapTarget(450, 0, snaps)).toBe(400);
+            expect(getSnapTarget(600, 0, snaps)).toBe(720);
+        });
+
+        it('projects the release velocity', () => {
+            // Slow upward swipe from just above the lower snap point
+            expect(getSnapTarget(450, -1, snaps)).toBe(720);
+        });
+
+        it('dismisses when dragged below half the lowest snap point or flicked down', () => {
+            expect(getSnapTarget(150, 0, snaps)).toBe(0);
+            expect(getSnapTarget(700, 2, snaps)).toBe(0);
+        });
+    });
+
+    it('dismisses from the backdrop after animating closed', () => {
+        jest.useFakeTimers();
+        const onClose = jest.fn();
+        const { getByLabelText, getByText } = render(
+            <PickerSheet
+                visible
+                onClose={onClose}
+                snapPoints={[0.5, 0.9]}
+                isExpanded={false}
+                theme={lightTheme}
+                backgroundColor="#fff"
+                closeLabel="Close country picker"
+                header={<Text>header</Text>}
+            >
+                <Text>list</Text>
+            </PickerSheet>
+        );
+
+        expect(getByText('header')).toBeTruthy();
+        expect(getByText('list')).toBeTruthy();
+
+        fireEvent.press(getByLabelText('Close country picker'));
+        act(() => {
+            jest.runAllTimers();
+        });
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,36 @@
+import { findTerritory, getMainTerritory, getTerritories } from '../src/data/callingCodes';
+
+describe('callingCodes', () => {
+    it('lists territories sharing a calling code with the main one first', () => {
+        expect(getMainTerritory('1')).toBe('US');
+        expect(getMainTerritory('7')).toBe('RU');
+        expect(getTerritories('1')).toEqual(expect.arrayContaining(['CA', 'JM', 'PR', 'BM']));
+        expect(getTerritories('90')).toEqual(['TR']);
+    });
+
+    it('resolves complete NANP numbers', () => {
+        expect(findTerritory('1', '2025550123')).toBe('US');
+        expect(findTerritory('1', '4165551234')).toBe('CA');
+        expect(findTerritory('1', '8765551234')).toBe('JM');
+        expect(findTerritory('1', '7872345678')).toBe('PR');
+        expect(findTerritory('1', '4412345678')).toBe('BM');
+    });
+
+    it('resolves complete +7 numbers', () => {
+        expect(findTerritory('7', '4951234567')).toBe('RU');
+        expect(findTerritory('7', '7012345678')).toBe('KZ');
+    });
+
+    it('resolves partial numbers by area code and stays undecided otherwise', () => {
+        expect(findTerritory('1', '876')).toBe('JM');
+        expect(findTerritory('1', '876555')).toBe('JM');
+        expect(findTerritory('7', '701')).toBe('KZ');
+        expect(findTerritory('1', '20')).toBeUndefined();
+        expect(findTerritory('1', '')).toBeUndefined();
+    });
+
+    it('returns the only territory for unshared calling codes', () => {
+        expect(findTerritory('90', '')).toBe('TR');
+        expect(findTerritory('90', '532')).toBe('TR');
+    });
+});
@@ -0,0 +1,59 @@
+import { buildSearchIndex, searchCountries } from '../src/utils/countrySearch';
+import { countryList } from '../src/data/countryList';
+import { localizeCountries } from '../src/data/locales';
+
+const index = buildSearchIndex(countryList);
+const search = (query: string) => searchCountries(index, query).map(c => c.iso2);
+
+describe('countrySearch', () => {
+    it('folds diacritics and punctuation', () => {
+        expect(search('Turkiye')[0]).toBe('TR');
+        expect(search("Cote d'Ivoire")[0]).toBe('CI');
+        expect(search('cote divoire')[0]).toBe('CI');
+        expect(search('curacao')[0]).toBe('CW');
+        expect(search('sao tome')[0]).toBe('ST');
+    });
+
+    it('matches aliases', () => {
+        expect(search('UK')[0]).toBe('GB');
+        expect(search('USA')[0]).toBe('US');
+        expect(search('holland')[0]).toBe('NL');
+        expect(search('burma')[0]).toBe('MM');
+    });
+
+    it('searches calling codes with or without a leading + or 00', () => {
+        expect(search('+44')[0]).toBe('GB');
+        expect(search('0044')[0]).toBe('GB');
+        expect(search('44')[0]).toBe('GB');
+        expect(search('+90')).toEqual(['TR']);
+        expect(search('90')).toContain('GP'); // +590, unanchored
+        expect(search('+7').slice(0, 2)).toEqual(['RU', 'KZ']);
+    });
+
+    it('ranks exact ISO2 and calling code matches before prefix and substring matches', () => {
+        const results = search('in');
+        expect(results[0]).toBe('IN');
+        // Prefix matches ("Indonesia") come before substrings ("Argentina")
+        expect(results.indexOf('ID')).toBeLessThan(results.indexOf('AR'));
+
+        const codes = search('+1');
+        expect(codes.slice(0, 3).every(iso2 => countryList.find(c => c.iso2 === iso2)?.callingCode === '1')).toBe(true);
+        expect(codes[0]).toBe('US');
+        const unanchored = search('1');
+        expect(unanchored.indexOf('AG')).toBeLessThan(unanchored.indexOf('AU')); // +61 only contains 1
+    });
+
+    it('tolerates typos', () => {
+        expect(search('Germny')[0]).toBe('DE');
+        expect(search('Untied States')[0]).toBe('US');
+        expect(search('Portgual')[0]).toBe('PT');
+        expect(search('xqzv')).toEqual([]);
+    });
+
+    it('matches localized and English names together', () => {
+        const germanIndex = buildSearchIndex(localizeCountries(countryList, 'de'));
+        const results = (query: string) => searchCountries(germanIndex, query).map(c => c.iso2);
+        expect(results('turkei')[0]).toBe('TR');
+        expect(results('turkey')[0]).toBe('TR');
+    });
+});
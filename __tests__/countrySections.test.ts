@@ -0,0 +1,56 @@
+import { buildCountrySections, getSectionLetter } from '../src/utils/countrySections';
+import { countryList } from '../src/data/countryList';
+import { localizeCountries } from '../src/data/locales';
+
+const pick = (...iso2: string[]) => iso2.map(code => countryList.find(c => c.iso2 === code)!);
+
+describe('countrySections', () => {
+    it('folds accents into the section letter', () => {
+        expect(getSectionLetter('Åland Islands')).toBe('A');
+        expect(getSectionLetter('Österreich')).toBe('O');
+        expect(getSectionLetter('İsveç', 'tr')).toBe('I');
+        expect(getSectionLetter('مصر')).toBe('م');
+    });
+
+    it('builds preferred, recent and letter sections with sticky header indices', () => {
+        const { items, stickyHeaderIndices, letters } = buildCountrySections({
+            countries: pick('TR', 'AU', 'AT', 'DE', 'US'),
+            preferred: pick('TR'),
+            recent: pick('DE'),
+            preferredTitle: 'Preferred',
+            recentTitle: 'Recent',
+        });
+
+        expect(items.map(item => (item.type === 'header' ? item.title : item.country.iso2))).toEqual([
+            'Preferred', 'TR',
+            'Recent', 'DE',
+            'A', 'AU', 'AT',
+            'G', 'DE',
+            'U', 'US',
+        ]);
+        expect(stickyHeaderIndices).toEqual([0, 2, 4, 7, 9]);
+        expect(letters).toEqual([
+            { letter: 'A', index: 4 },
+            { letter: 'G', index: 7 },
+            { letter: 'U', index: 9 },
+        ]);
+        expect(new Set(items.map(item => item.key)).size).toBe(items.length);
+    });
+
+    it('skips empty sections and keeps one header per letter in localized lists', () => {
+        const { items, letters } = buildCountrySections({
+            countries: localizeCountries(countryList, 'de'),
+            preferred: [],
+            recent: [],
+            preferredTitle: 'Bevorzugt',
+            recentTitle: 'Zuletzt verwendet',
+            locale: 'de',
+        });
+
+        const titles = items.filter(item => item.type === 'header').map(item => (item.type === 'header' ? item.title : ''));
+        expect(titles).not.toContain('Bevorzugt');
+        expect(new Set(titles).size).toBe(titles.length);
+        expect(letters.find(l => l.letter === 'O')).toBeTruthy(); // Österreich
+        expect(items.filter(item => item.type === 'country')).toHaveLength(countryList.length);
+    });
+});
@@ -0,0 +1,93 @@
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { getDeviceRegion, getRegionFromLocale, detectDeviceCountry } from '../src/utils/deviceRegion';
+import { usePhoneInput } from '../src/hooks/usePhoneInput';
+
+let mockRegionCode: string | null = 'DE';
+
+jest.mock('expo-localization', () => ({
+    getLocales: () => [{ regionCode: mockRegionCode }],
+}), { virtual: true });
+
+const mockOnChange = jest.fn();
+
+describe('deviceRegion', () => {
+    beforeEach(() => {
+        mockRegionCode = 'DE';
+    });
+
+    it('reads the region subtag of a locale', () => {
+        expect(getRegionFromLocale('en-US')).toBe('US');
+        expect(getRegionFromLocale('zh-Hans-CN')).toBe('CN');
+        expect(getRegionFromLocale('pt_br')).toBe('BR');
+        expect(getRegionFromLocale('en')).toBeUndefined();
+    });
+
+    it('prefers expo-localization over Intl', () => {
+        expect(getDeviceRegion()).toBe('DE');
+    });
+
+    it('uses a custom resolver and falls back to the device region', async () => {
+        await expect(detectDeviceCountry(() => 'fr')).resolves.toBe('FR');
+        await expect(detectDeviceCountry(async () => null)).resolves.toBe('DE');
+        await expect(detectDeviceCountry(() => Promise.reject(new Error('offline')))).resolves.toBe('DE');
+    });
+
+    describe('autoDetectCountry', () => {
+        it('starts from the device region', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', autoDetectCountry: true })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe('DE');
+        });
+
+        it('falls back to defaultCountry when the region is not available', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({
+                    value: '',
+                    onChange: mockOnChange,
+                    defaultCountry: 'US',
+                    autoDetectCountry: true,
+                    excludedCountries: ['DE'],
+                })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe('US');
+        });
+
+        it('never overrides the country implied by a value', async () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({
+                    value: '+442079460958',
+                    onChange: mockOnChange,
+                    defaultCountry: 'US',
+                    autoDetectCountry: async () => 'FR',
+                })
+            );
+
+            await act(async () => { });
+            expect(result.current.selectedCountry.iso2).toBe('GB');
+        });
+
+        it('applies an async resolver unless the user picked a country first', async () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', autoDetectCountry: async () => 'FR' })
+            );
+            await waitFor(() => expect(result.current.selectedCountry.iso2).toBe('FR'));
+
+            let resolve: (iso2: string) => void = () => { };
+            const pending = new Promise<string>(r => { resolve = r; });
+            const { result: picked } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', autoDetectCountry: () => pending })
+            );
+
+            act(() => {
+                picked.current.setCountry('TR');
+            });
+            await act(async () => {
+                resolve('FR');
+            });
+            expect(picked.current.selectedCountry.iso2).toBe('TR');
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import { getDropdownLayout } from '../src/utils/dropdownLayout';
+
+const layout = (y: number, overrides: Partial<Parameters<typeof getDropdownLayout>[0]> = {}) =>
+    getDropdownLayout({
+        anchor: { x: 16, y, width: 300, height: 56 },
+        windowHeight: 800,
+        keyboardHeight: 0,
+        preferredHeight: 300,
+        gap: 4,
+        margin: 8,
+        ...overrides,
+    });
+
+describe('getDropdownLayout', () => {
+    it('opens below the trigger when it fits', () => {
+        expect(layout(100)).toEqual({ placement: 'below', top: 160, left: 16, width: 300, height: 300 });
+    });
+
+    it('flips above the trigger near the bottom of the screen', () => {
+        expect(layout(600)).toEqual({ placement: 'above', top: 296, left: 16, width: 300, height: 300 });
+    });
+
+    it('clamps the height to the larger of the two spaces', () => {
+        // 200 below vs. 236 above
+        expect(layout(260, { windowHeight: 528 })).toMatchObject({ placement: 'above', height: 248, top: 8 });
+        expect(layout(200, { windowHeight: 528 })).toMatchObject({ placement: 'below', height: 260 });
+    });
+
+    it('keeps clear of the keyboard and the top inset', () => {
+        expect(layout(100, { keyboardHeight: 400 })).toMatchObject({ placement: 'below', height: 232 });
+        expect(layout(400, { keyboardHeight: 300, topInset: 200 })).toMatchObject({ placement: 'above', height: 188, top: 208 });
+    });
+});
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Text, Pressable } from 'react-native';
+import { render, fireEvent, screen, waitFor, act } from '@testing-library/react-native';
+import { useForm, UseFormReturn } from 'react-hook-form';
+import { Formik } from 'formik';
+import { ControlledPhoneInput } from '../src/integrations/reactHookForm';
+import { FormikPhoneInput } from '../src/integrations/formik';
+
+type FormValues = { phone: string };
+
+const HookForm = ({ onSubmit, required }: { onSubmit: (values: FormValues) => void; required?: boolean }) => {
+    const { control, handleSubmit } = useForm<FormValues>({ defaultValues: { phone: '' } });
+    return (
+        <>
+            <ControlledPhoneInput
+                control={control}
+                name="phone"
+                defaultCountry="TR"
+                allowedNumberTypes={['MOBILE']}
+                rules={required ? { required: 'Phone is required' } : undefined}
+            />
+            <Pressable onPress={handleSubmit(onSubmit)}><Text>Submit</Text></Pressable>
+        </>
+    );
+};
+
+describe('ControlledPhoneInput', () => {
+    it('stores E.164 values and submits valid numbers', async () => {
+        const onSubmit = jest.fn();
+        render(<HookForm onSubmit={onSubmit} />);
+
+        fireEvent.changeText(screen.getByPlaceholderText('Phone Number'), '5321234567');
+        fireEvent.press(screen.getByText('Submit'));
+
+        await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ phone: '+905321234567' }, undefined));
+    });
+
+    it('validates with the input\'s rules without a custom validator', async () => {
+        const onSubmit = jest.fn();
+        render(<HookForm onSubmit={onSubmit} />);
+
+        fireEvent.changeText(screen.getByPlaceholderText('Phone Number'), '2121234567');
+        fireEvent.press(screen.getByText('Submit'));
+
+        // The field error is shown by the input itself
+        expect((await screen.findByRole('alert')).props.children).toBe('This type of phone number is not accepted');
+        expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('rejects numbers from excludedCountries', async () => {
+        let form: UseFormReturn<FormValues> | undefined;
+        const ExcludingForm = () => {
+            form = useForm<FormValues>({ defaultValues: { phone: '' } });
+            return <ControlledPhoneInput control={form.control} name="phone" excludedCountries={['TR']} />;
+        };
+        render(<ExcludingForm />);
+
+        await act(async () => {
+            form!.setValue('phone', '+905321234567');
+            await form!.trigger('phone');
+        });
+
+        expect(form!.getFieldState('phone').error?.message).toBe('Phone numbers from this country are not accepted');
+    });
+
+    it('applies a reset that follows an emit the form stored as empty', () => {
+        let form: UseFormReturn<FormValues> | undefined;
+        const ResettableForm = () => {
+            form = useForm<FormValues>({ defaultValues: { phone: '' } });
+            return <ControlledPhoneInput control={form.control} name="phone" defaultCountry="US" />;
+        };
+        render(<ResettableForm />);
+
+        const input = screen.getByPlaceholderText('Phone Number');
+        fireEvent.changeText(input, '-');
+        expect(form!.getValues('phone')).toBe('');
+
+        act(() => {
+            form!.reset({ phone: '+442079460958' });
+        });
+
+        expect(input.props.value).toBe('020 7946 0958');
+    });
+
+    it('treats a cleared field as empty for required rules', async () => {
+        const onSubmit = jest.fn();
+        render(<HookForm onSubmit={onSubmit} required />);
+
+        const input = screen.getByPlaceholderText('Phone Number');
+        fireEvent.changeText(input, '532');
+        fireEvent.changeText(input, '');
+        fireEvent.press(screen.getByText('Submit'));
+
+        expect(await screen.findByText('Phone is required')).toBeTruthy();
+    });
+});
+
+describe('FormikPhoneInput', () => {
+    const renderForm = (onSubmit: jest.Mock) => render(
+        <Formik initialValues={{ phone: '' }} onSubmit={onSubmit}>
+            {({ handleSubmit }) => (
+                <>
+                    <FormikPhoneInput name="phone" defaultCountry="TR" allowedCountries={['TR']} />
+                    <Pressable onPress={() => handleSubmit()}><Text>Submit</Text></Pressable>
+                </>
+            )}
+        </Formik>
+    );
+
+    it('stores E.164 values and submits valid numbers', async () => {
+        const onSubmit = jest.fn();
+        renderForm(onSubmit);
+
+        fireEvent.changeText(screen.getByPlaceholderText('Phone Number'), '5321234567');
+        fireEvent.press(screen.getByText('Submit'));
+
+        await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ phone: '+905321234567' }, expect.anything()));
+    });
+
+    it('shows messages in the input\'s locale', async () => {
+        render(
+            <Formik initialValues={{ phone: '' }} onSubmit={jest.fn()}>
+                <FormikPhoneInput name="phone" defaultCountry="TR" locale="tr" />
+            </Formik>
+        );
+
+        const input = screen.getByPlaceholderText('Telefon Numarası');
+        fireEvent.changeText(input, '532');
+        fireEvent(input, 'blur');
+
+        expect((await screen.findByRole('alert')).props.children).toBe('Telefon numarası çok kısa');
+    });
+
+    it('reports invalid numbers through the field-level validator', async () => {
+        const onSubmit = jest.fn();
+        renderForm(onSubmit);
+
+        const input = screen.getByPlaceholderText('Phone Number');
+        fireEvent.changeText(input, '532');
+        fireEvent(input, 'blur');
+
+        expect(await screen.findByText('Phone number is too short')).toBeTruthy();
+        fireEvent.press(screen.getByText('Submit'));
+        await waitFor(() => expect(onSubmit).not.toHaveBeenCalled());
+    });
+});
@@ -0,0 +1,24 @@
+import { getCountryName, localizeCountries, registerCountryNames } from '../src/data/locales';
+import { countryList } from '../src/data/countryList';
+
+describe('locales', () => {
+    it('returns bundled translations and falls back to English', () => {
+        expect(getCountryName('DE', 'de')).toBe('Deutschland');
+        expect(getCountryName('TR', 'tr-TR')).toBe('Türkiye');
+        expect(getCountryName('TR', 'xx')).toBe('Turkey');
+        expect(getCountryName('TR')).toBe('Turkey');
+    });
+
+    it('sorts localized countries in the locale order', () => {
+        const localized = localizeCountries(countryList, 'de');
+        const names = localized.map(c => c.name);
+        expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b, 'de')));
+        expect(localized.find(c => c.iso2 === 'US')?.name).toBe('Vereinigte Staaten');
+    });
+
+    it('registers custom translation tables', () => {
+        registerCountryNames('pt-BR', { US: 'Estados Unidos da América' });
+        expect(getCountryName('US', 'pt-BR')).toBe('Estados Unidos da América');
+        expect(getCountryName('TR', 'pt-BR')).toBe('Turkey');
+    });
+});
@@ -0,0 +1,62 @@
+import { phoneSchema as zodPhoneSchema } from '../src/integrations/zod';
+import { phoneSchema as yupPhoneSchema } from '../src/integrations/yup';
+
+describe('phoneSchema', () => {
+    describe('zod', () => {
+        it('accepts valid numbers', () => {
+            expect(zodPhoneSchema().safeParse('+905321234567').success).toBe(true);
+        });
+
+        it('reports the validation reason as a message', () => {
+            const result = zodPhoneSchema().safeParse('+90532');
+            expect(result.success).toBe(false);
+            expect(result.error?.issues[0].message).toBe('Phone number is too short');
+        });
+
+        it('applies allowed countries, number types and custom messages', () => {
+            const schema = zodPhoneSchema({
+                allowedCountries: ['TR', 'US'],
+                types: ['MOBILE'],
+                errorMessages: { DISALLOWED_TYPE: 'Mobile numbers only' },
+            });
+
+            expect(schema.safeParse('+442079460958').error?.issues[0].message).toBe('Phone numbers from this country are not accepted');
+            expect(schema.safeParse('+902121234567').error?.issues[0].message).toBe('Mobile numbers only');
+            expect(schema.safeParse('+905321234567').success).toBe(true);
+        });
+
+        it('tells national numbers without a default country apart from disallowed countries', () => {
+            expect(zodPhoneSchema().safeParse('5321234567').error?.issues[0].message).toBe('Include the country code');
+            expect(zodPhoneSchema({ defaultCountry: 'TR' }).safeParse('5321234567').success).toBe(true);
+        });
+
+        it('uses the bundled messages for the locale', () => {
+            expect(zodPhoneSchema({ locale: 'tr' }).safeParse('+90532').error?.issues[0].message).toBe('Telefon numarası çok kısa');
+            expect(zodPhoneSchema({ locale: 'de-DE', labels: { errorTooShort: 'Zu kurz' } }).safeParse('+90532').error?.issues[0].message)
+                .toBe('Zu kurz');
+        });
+
+        it('rejects empty strings', () => {
+            expect(zodPhoneSchema().safeParse('').error?.issues[0].message).toBe('Enter a phone number');
+            expect(zodPhoneSchema().optional().safeParse(undefined).success).toBe(true);
+        });
+    });
+
+    describe('yup', () => {
+        it('accepts valid numbers and national input with a default country', async () => {
+            await expect(yupPhoneSchema().isValid('+905321234567')).resolves.toBe(true);
+            await expect(yupPhoneSchema({ defaultCountry: 'US' }).isValid('(202) 555-0123')).resolves.toBe(true);
+        });
+
+        it('uses the same rules and messages as zod', async () => {
+            const schema = yupPhoneSchema({ allowedCountries: ['TR'] });
+            await expect(schema.validate('+12025550123')).rejects.toThrow('Phone numbers from this country are not accepted');
+            await expect(schema.validate('+90532')).rejects.toThrow('Phone number is too short');
+        });
+
+        it('leaves missing values to required()', async () => {
+            await expect(yupPhoneSchema().isValid(undefined)).resolves.toBe(true);
+            await expect(yupPhoneSchema().required('Required').validate(undefined)).rejects.toThrow('Required');
+        });
+    });
+});
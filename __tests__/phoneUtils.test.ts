@@ -0,0 +1,77 @@
+import {
+    formatPhone,
+    parsePhone,
+    toE164,
+    validatePhone,
+    getCountryByIso2,
+    getCountriesByCallingCode,
+    detectCountry,
+} from '../src/utils/phoneUtils';
+
+describe('phoneUtils', () => {
+    it('does not depend on React Native', () => {
+        jest.isolateModules(() => {
+            jest.doMock('react-native', () => {
+                throw new Error('react-native was imported');
+            });
+            expect(() => require('../src/utils/phoneUtils')).not.toThrow();
+        });
+    });
+
+    it('converts national and international input to E.164', () => {
+        expect(toE164('(202) 555-0123', 'US')).toBe('+12025550123');
+        expect(toE164('0532 123 45 67', 'TR')).toBe('+905321234567');
+        expect(toE164('0044 20 7946 0958')).toBe('+442079460958');
+        expect(toE164('202 555', 'US')).toBeUndefined();
+        expect(toE164('2025550123')).toBeUndefined(); // No country to parse against
+    });
+
+    it('formats complete and partial numbers', () => {
+        expect(formatPhone('+442079460958')).toBe('020 7946 0958');
+        expect(formatPhone('+442079460958', 'INTERNATIONAL')).toBe('+44 20 7946 0958');
+        expect(formatPhone('2025550123', 'RFC3966', 'US')).toBe('tel:+12025550123');
+        expect(formatPhone('20255', 'NATIONAL', 'US')).toBe('(202) 55');
+        expect(formatPhone('+120255', 'INTERNATIONAL')).toBe('+1 (202) 55');
+    });
+
+    it('parses details and honours allowed types', () => {
+        const details = parsePhone('+18765551234');
+        expect(details).toMatchObject({ iso2: 'JM', e164: '+18765551234', isValid: true });
+
+        expect(parsePhone('02079460958', { defaultCountry: 'GB', allowedTypes: ['MOBILE'] })).toMatchObject({
+            iso2: 'GB',
+            isValid: false,
+            validationError: 'DISALLOWED_TYPE',
+        });
+        expect(parsePhone('12345')).toBeUndefined();
+    });
+
+    it('validates with structured reasons', () => {
+        expect(validatePhone('+905321234567')).toEqual({ isValid: true, reason: undefined });
+        expect(validatePhone('+90532')).toEqual({ isValid: false, reason: 'TOO_SHORT' });
+        expect(validatePhone('')).toEqual({ isValid: false, reason: 'NOT_A_NUMBER' });
+        expect(validatePhone('5321234567')).toEqual({ isValid: false, reason: 'INVALID_COUNTRY' });
+        expect(validatePhone('+12025550123', { allowedCountries: ['TR'] })).toEqual({ isValid: false, reason: 'DISALLOWED_COUNTRY' });
+        expect(validatePhone('+905321234567', { excludedCountries: ['TR'] })).toEqual({ isValid: false, reason: 'DISALLOWED_COUNTRY' });
+        expect(validatePhone('+18765550123', { excludedCountries: ['JM'] }).reason).toBe('DISALLOWED_COUNTRY');
+        // National input that belongs to another territory under the same calling code
+        expect(validatePhone('(876) 555-0123', { defaultCountry: 'US', allowedCountries: ['US'] }).reason).toBe('DISALLOWED_COUNTRY');
+    });
+
+    it('looks up countries', () => {
+        expect(getCountryByIso2('tr')?.name).toBe('Turkey');
+        expect(getCountryByIso2('DE', 'de')?.name).toBe('Deutschland');
+        expect(getCountryByIso2('XX')).toBeUndefined();
+
+        const nanp = getCountriesByCallingCode('+1').map(c => c.iso2);
+        expect(nanp[0]).toBe('US');
+        expect(nanp).toEqual(expect.arrayContaining(['CA', 'JM', 'PR']));
+    });
+
+    it('detects the country of international numbers', () => {
+        expect(detectCountry('+7 701 234 5678')?.iso2).toBe('KZ');
+        expect(detectCountry('+1')?.iso2).toBe('US');
+        expect(detectCountry('00 90 532')?.iso2).toBe('TR');
+        expect(detectCountry('0532 123 45 67')).toBeUndefined();
+    });
+});
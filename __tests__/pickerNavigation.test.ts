@@ -0,0 +1,37 @@
+import { moveHighlight, findTypeAhead } from '../src/utils/pickerNavigation';
+import { buildCountrySections } from '../src/utils/countrySections';
+import { countryList } from '../src/data/countryList';
+
+const pick = (...iso2: string[]) => iso2.map(code => countryList.find(c => c.iso2 === code)!);
+
+// A (0), AU (1), AT (2), C (3), CA (4), CL (5), U (6), US (7)
+const { items } = buildCountrySections({
+    countries: pick('AU', 'AT', 'CA', 'CL', 'US'),
+    preferred: [],
+    recent: [],
+    preferredTitle: 'Preferred',
+    recentTitle: 'Recent',
+});
+
+describe('pickerNavigation', () => {
+    it('moves between country rows, skipping headers', () => {
+        expect(moveHighlight(items, -1, 1)).toBe(1);
+        expect(moveHighlight(items, 2, 1)).toBe(4);
+        expect(moveHighlight(items, 4, -1)).toBe(2);
+        expect(moveHighlight(items, items.length, -1)).toBe(7);
+    });
+
+    it('stays on the first and last rows', () => {
+        expect(moveHighlight(items, 1, -1)).toBe(1);
+        expect(moveHighlight(items, 7, 1)).toBe(7);
+        expect(moveHighlight([], -1, 1)).toBe(-1);
+    });
+
+    it('jumps by first letter and cycles on repeats', () => {
+        expect(findTypeAhead(items, -1, 'c')).toBe(4);
+        expect(findTypeAhead(items, 4, 'C')).toBe(5);
+        expect(findTypeAhead(items, 5, 'c')).toBe(4);
+        expect(findTypeAhead(items, 7, 'a')).toBe(1);
+        expect(findTypeAhead(items, 1, 'z')).toBe(-1);
+    });
+});
@@ -0,0 +1,62 @@
+import React from 'react';
+import { StyleSheet, useColorScheme } from 'react-native';
+import { render } from '@testing-library/react-native';
+import type { ReactTestRendererJSON } from 'react-test-renderer';
+import { InternationalPhoneInput } from '../src/components/InternationalPhoneInput';
+import { PhoneInputThemeProvider } from '../src/theme/PhoneInputThemeProvider';
+import { lightTheme, darkTheme, mergeTheme } from '../src/theme/theme';
+
+jest.mock('react-native/Libraries/Utilities/useColorScheme', () => ({
+    __esModule: true,
+    default: jest.fn(() => 'dark'),
+}));
+
+const mockOnChange = jest.fn();
+
+const containerStyle = (toJSON: () => unknown) =>
+    StyleSheet.flatten((toJSON() as ReactTestRendererJSON).props.style);
+
+describe('theme', () => {
+    it('merges overrides section by section', () => {
+        const theme = mergeTheme(lightTheme, { colors: { border: 'red' } }, { radii: { input: 0 } });
+        expect(theme.colors.border).toBe('red');
+        expect(theme.colors.text).toBe(lightTheme.colors.text);
+        expect(theme.radii.input).toBe(0);
+    });
+
+    it('stays light without a provider even when the system is dark', () => {
+        expect(useColorScheme()).toBe('dark');
+        const { toJSON } = render(<InternationalPhoneInput value="" onChange={mockOnChange} />);
+        expect(containerStyle(toJSON)).toMatchObject({ backgroundColor: lightTheme.colors.background });
+    });
+
+    it('follows the system color scheme inside a provider', () => {
+        const { toJSON } = render(
+            <PhoneInputThemeProvider>
+                <InternationalPhoneInput value="" onChange={mockOnChange} />
+            </PhoneInputThemeProvider>
+        );
+        expect(containerStyle(toJSON)).toMatchObject({
+            backgroundColor: darkTheme.colors.background,
+            borderColor: darkTheme.colors.border,
+        });
+    });
+
+    it('applies provider and per-instance overrides in order', () => {
+        const { toJSON, getByLabelText } = render(
+            <PhoneInputThemeProvider
+                colorScheme="light"
+                theme={{ radii: { input: 20 } }}
+                lightTheme={{ colors: { border: '#123456' } }}
+            >
+                <InternationalPhoneInput
+                    value=""
+                    onChange={mockOnChange}
+                    theme={{ colors: { border: '#654321' } }}
+                />
+            </PhoneInputThemeProvider>
+        );
+        expect(containerStyle(toJSON)).toMatchObject({ borderRadius: 20, borderColor: '#654321' });
+        expect(getByLabelText('Phone number').props.placeholderTextColor).toBe(lightTheme.colors.placeholder);
+    });
+});
@@ -0,0 +1,354 @@
+import { renderHook, act } from '@testing-library/react-native';
+import { usePhoneInput } from '../src/hooks/usePhoneInput';
+import { createMemoryStorage } from '../src/utils/recentCountries';
+
+const mockOnChange = jest.fn();
+
+describe('usePhoneInput', () => {
+    beforeEach(() => {
+        mockOnChange.mockClear();
+    });
+
+    it('starts with the default country and empty value', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US' })
+        );
+
+        expect(result.current.selectedCountry.iso2).toBe('US');
+        expect(result.current.nationalValue).toBe('');
+        expect(result.current.isValid).toBe(false);
+        expect(result.current.e164).toBeUndefined();
+    });
+
+    it('formats typed text and exposes E.164 and validity', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US' })
+        );
+
+        act(() => {
+            result.current.handleTextChange('2025550123');
+        });
+
+        expect(result.current.nationalValue).toBe('(202) 555-0123');
+        expect(result.current.e164).toBe('+12025550123');
+        expect(result.current.isValid).toBe(true);
+        expect(mockOnChange).toHaveBeenLastCalledWith('+12025550123', 'US');
+    });
+
+    it('syncs the selected country from the value prop', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '+442079460958', onChange: mockOnChange, defaultCountry: 'US' })
+        );
+
+        expect(result.current.selectedCountry.iso2).toBe('GB');
+        expect(result.current.e164).toBe('+442079460958');
+    });
+
+    it('filters countries by search query', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, allowedCountries: ['US', 'CA', 'TR'] })
+        );
+
+        expect(result.current.countries).toHaveLength(3);
+
+        act(() => {
+            result.current.setSearchQuery('tur');
+        });
+
+        expect(result.current.filteredCountries.map(c => c.iso2)).toEqual(['TR']);
+    });
+
+    it('closes the picker and re-emits when a country is selected', () => {
+        jest.useFakeTimers();
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US' })
+        );
+
+        act(() => {
+            result.current.openPicker();
+        });
+        expect(result.current.isOpen).toBe(true);
+
+        act(() => {
+            result.current.setCountry('TR');
+            jest.runAllTimers();
+        });
+
+        expect(result.current.isOpen).toBe(false);
+        expect(result.current.selectedCountry.iso2).toBe('TR');
+        expect(mockOnChange).toHaveBeenLastCalledWith('+90', 'TR');
+        jest.useRealTimers();
+    });
+
+    it('localizes country names and searches in both languages', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'DE', locale: 'de' })
+        );
+
+        expect(result.current.selectedCountry.name).toBe('Deutschland');
+
+        act(() => {
+            result.current.setSearchQuery('vereinigte');
+        });
+        expect(result.current.filteredCountries.map(c => c.iso2)).toEqual(['AE', 'US', 'GB']);
+
+        act(() => {
+            result.current.setSearchQuery('germany');
+        });
+        expect(result.current.filteredCountries.map(c => c.iso2)).toEqual(['DE']);
+    });
+
+    it('remembers picked countries, most recent first, up to the limit', async () => {
+        const storage = createMemoryStorage();
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', recentCountries: { limit: 2, storage } })
+        );
+        await act(async () => { });
+        expect(result.current.recentCountries).toEqual([]);
+
+        act(() => {
+            result.current.setCountry('TR');
+        });
+        act(() => {
+            result.current.setCountry('DE');
+        });
+        act(() => {
+            result.current.setCountry('FR');
+        });
+        act(() => {
+            result.current.setCountry('DE');
+        });
+
+        expect(result.current.recentCountries.map(c => c.iso2)).toEqual(['DE', 'FR']);
+        expect(JSON.parse(storage.getItem('expo-intl-phone-number:recent-countries') as string)).toEqual(['DE', 'FR']);
+    });
+
+    it('does not track recent countries unless enabled', () => {
+        const { result } = renderHook(() =>
+            usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US' })
+        );
+
+        act(() => {
+            result.current.setCountry('TR');
+        });
+
+        expect(result.current.recentCountries).toEqual([]);
+    });
+
+    describe('uncontrolled', () => {
+        it('starts from defaultValue and keeps typed input without a value prop', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ defaultValue: '+442079460958', onChange: mockOnChange, defaultCountry: 'US' })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe('GB');
+            expect(result.current.value).toBe('+442079460958');
+
+            act(() => {
+                result.current.handleTextChange('020 7946 0000');
+            });
+
+            expect(result.current.value).toBe('+442079460000');
+            expect(mockOnChange).toHaveBeenLastCalledWith('+442079460000', 'GB');
+        });
+
+        it('sets and clears the value, reporting through onChange', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ onChange: mockOnChange, defaultCountry: 'US' })
+            );
+
+            act(() => {
+                result.current.setValue('+905321234567');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('TR');
+            expect(result.current.nationalValue).toBe('0532 123 45 67');
+            expect(mockOnChange).toHaveBeenLastCalledWith('+905321234567', 'TR');
+
+            act(() => {
+                result.current.clear();
+            });
+
+            expect(result.current.nationalValue).toBe('');
+            expect(result.current.value).toBe('');
+            expect(result.current.selectedCountry.iso2).toBe('TR');
+            expect(mockOnChange).toHaveBeenLastCalledWith('', 'TR');
+        });
+    });
+
+    describe('shared calling codes', () => {
+        it.each([
+            ['+18765551234', 'JM'],
+            ['+14165551234', 'CA'],
+            ['+17872345678', 'PR'],
+            ['+14412345678', 'BM'],
+            ['+12025550123', 'US'],
+            ['+77012345678', 'KZ'],
+            ['+74951234567', 'RU'],
+        ])('syncs %s to %s', (value, iso2) => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value, onChange: mockOnChange, defaultCountry: 'TR' })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe(iso2);
+            expect(result.current.e164).toBe(value);
+        });
+
+        it('resolves partial values by area code', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '+1876555', onChange: mockOnChange, defaultCountry: 'US' })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe('JM');
+            expect(result.current.nationalValue).toBe('(876) 555');
+        });
+
+        it('follows the area code while typing a national number', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US' })
+            );
+
+            act(() => {
+                result.current.handleTextChange('876');
+            });
+            expect(result.current.selectedCountry.iso2).toBe('JM');
+
+            act(() => {
+                result.current.handleTextChange('8765551234');
+            });
+            expect(mockOnChange).toHaveBeenLastCalledWith('+18765551234', 'JM');
+        });
+
+        it.each([
+            ['+1 876 555 0123', { allowedCountries: ['US'] }],
+            ['+1 202 555 0123', { allowedCountries: ['CA'] }],
+            ['+7 912 345 67 89', { allowedCountries: ['KZ'] }],
+            ['+1 876 555 0123', { excludedCountries: ['JM'] }],
+        ] as const)('rejects pasted %s from a territory outside %j', (text, lists) => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', ...lists })
+            );
+            const before = result.current.selectedCountry.iso2;
+
+            act(() => {
+                result.current.handleTextChange(text);
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe(before);
+            expect(result.current.nationalValue).toBe('');
+            expect(mockOnChange).not.toHaveBeenCalled();
+        });
+
+        it('reports values and national input from unavailable territories as DISALLOWED_COUNTRY', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '+18765550123', onChange: mockOnChange, allowedCountries: ['US'] })
+            );
+
+            expect(result.current.selectedCountry.iso2).toBe('US');
+            expect(result.current.validationError).toBe('DISALLOWED_COUNTRY');
+
+            const onChangeDetails = jest.fn();
+            const typed = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, onChangeDetails, allowedCountries: ['US'] })
+            );
+
+            act(() => {
+                typed.result.current.handleTextChange('8765550123');
+            });
+
+            expect(typed.result.current.selectedCountry.iso2).toBe('US');
+            expect(typed.result.current.isValid).toBe(false);
+            expect(onChangeDetails).toHaveBeenLastCalledWith(expect.objectContaining({ validationError: 'DISALLOWED_COUNTRY' }));
+        });
+
+        it('keeps a Russian selection for Russian numbers with a trunk prefix', () => {
+            const { result } = renderHook(() =>
+                usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'RU' })
+            );
+
+            act(() => {
+                result.current.handleTextChange('84951234567');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('RU');
+            expect(mockOnChange).toHaveBeenLastCalledWith('+74951234567', 'RU');
+        });
+    });
+
+    describe('international input', () => {
+        const setup = (options: Partial<Parameters<typeof usePhoneInput>[0]> = {}) =>
+            renderHook(() => usePhoneInput({ value: '', onChange: mockOnChange, defaultCountry: 'US', ...options }));
+
+        it('detects the country from a pasted +<code> number and strips the prefix', () => {
+            const { result } = setup();
+
+            act(() => {
+                result.current.handleTextChange('+44 20 7946 0958');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('GB');
+            expect(result.current.nationalValue).toBe('020 7946 0958');
+            expect(result.current.e164).toBe('+442079460958');
+            expect(mockOnChange).toHaveBeenLastCalledWith('+442079460958', 'GB');
+        });
+
+        it('accepts a 00 international prefix', () => {
+            const { result } = setup();
+
+            act(() => {
+                result.current.handleTextChange('00905321234567');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('TR');
+            expect(mockOnChange).toHaveBeenLastCalledWith('+905321234567', 'TR');
+        });
+
+        it('resolves territories that share a calling code', () => {
+            const { result } = setup();
+
+            act(() => {
+                result.current.handleTextChange('+1 876 555 1234');
+            });
+            expect(result.current.selectedCountry.iso2).toBe('JM');
+
+            act(() => {
+                result.current.handleTextChange('+7 701 234 5678');
+            });
+            expect(result.current.selectedCountry.iso2).toBe('KZ');
+        });
+
+        it('keeps the current country while only the shared calling code is known', () => {
+            const { result } = setup({ defaultCountry: 'CA' });
+
+            act(() => {
+                result.current.handleTextChange('+1');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('CA');
+            expect(result.current.nationalValue).toBe('');
+        });
+
+        it('shows an incomplete calling code as typed without emitting', () => {
+            const { result } = setup();
+
+            act(() => {
+                result.current.handleTextChange('+3');
+            });
+
+            expect(result.current.nationalValue).toBe('+3');
+            expect(result.current.selectedCountry.iso2).toBe('US');
+            expect(mockOnChange).not.toHaveBeenCalled();
+        });
+
+        it('ignores numbers from countries that are not available', () => {
+            const { result } = setup({ allowedCountries: ['US', 'CA'] });
+
+            act(() => {
+                result.current.handleTextChange('+44 20 7946 0958');
+            });
+
+            expect(result.current.selectedCountry.iso2).toBe('US');
+            expect(mockOnChange).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,10 +1,14 @@
 // Mock @shopify/flash-list
-jest.mock('@shopify/flash-list', () => ({
-    FlashList: ({ data, renderItem, keyExtractor }) => {
-        const React = require('react');
-        const { View } = require('react-native');
+jest.mock('@shopify/flash-list', () => {
+    const React = require('react');
+    const { View } = require('react-native');
+    const scrollToIndex = jest.fn();
+
+    const FlashList = React.forwardRef(({ data, renderItem, keyExtractor, ListEmptyComponent }, ref) => {
+        React.useImperativeHandle(ref, () => ({ scrollToIndex }));
         return (
             <View testID="flash-list">
+                {data.length === 0 && ListEmptyComponent ? <ListEmptyComponent /> : null}
                 {data.map((item, index) => (
                     <View key={keyExtractor ? keyExtractor(item, index) : index}>
                         {renderItem({ item, index })}
@@ -12,5 +16,12 @@ jest.mock('@shopify/flash-list', () => ({
                 ))}
             </View>
         );
-    },
-}));
+    });
+
+    return { FlashList, scrollToIndex };
+});
+
+// Host views report a fixed window position (an input near the top of the screen), so the
+// dropdown can measure its trigger
+const MockNativeMethods = jest.requireActual('react-native/jest/MockNativeMethods').default;
+MockNativeMethods.measureInWindow.mockImplementation(callback => callback(0, 100, 320, 56));
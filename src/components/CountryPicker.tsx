@@ -0,0 +1,991 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
+import {
+    View,
+    Text,
+    TextInput,
+    Pressable,
+    Image,
+    StyleSheet,
+    Keyboard,
+    ViewStyle,
+    TextStyle,
+    ImageStyle,
+    NativeSyntheticEvent,
+    TextInputKeyPressEventData,
+    StyleProp,
+    TouchableWithoutFeedback,
+    Modal,
+    TouchableOpacity,
+    KeyboardAvoidingView,
+    Platform,
+    AccessibilityInfo,
+    I18nManager,
+    useWindowDimensions,
+} from 'react-native';
+import { FlashList } from '@shopify/flash-list';
+import { CountryCode } from 'libphonenumber-js';
+import { Country } from '../data/countryList';
+import { flags } from '../data/flags';
+import { getLabels, formatLabel, PhoneInputLabels } from '../data/locales';
+import { usePhoneInputTheme } from '../theme/PhoneInputThemeProvider';
+import { PhoneInputTheme, PhoneInputThemeOverride, PhoneInputColorScheme } from '../theme/theme';
+import { RecentCountriesOptions } from '../utils/recentCountries';
+import { getDropdownLayout, DropdownLayout } from '../utils/dropdownLayout';
+import { moveHighlight, findTypeAhead } from '../utils/pickerNavigation';
+import { buildCountrySections, toFlatList, CountryListItem, CountrySections } from '../utils/countrySections';
+import { isolateLTR } from '../utils/bidi';
+import { getCountryByIso2 } from '../utils/phoneUtils';
+import { useCountryList, UseCountryListResult } from '../hooks/useCountryList';
+import { PickerSheet, SheetInsets } from './PickerSheet';
+
+// --- Interfaces ---
+
+export interface CountryPickerRef {
+    open: () => void;
+    close: () => void;
+    // Lets another field drive the open list: arrows, Home/End, Enter, Escape and letter type-ahead.
+    // Returns whether the key was handled.
+    handleKeyPress: (key: string) => boolean;
+}
+
+// Render props receive typed context and replace the default markup inside the component's
+// own pressable wrappers, so press handling and accessibility props stay intact.
+export interface CountryItemRenderInfo {
+    country: Country;
+    isSelected: boolean;
+    isHighlighted: boolean; // Keyboard highlight
+    onPress: () => void;
+}
+
+export interface FlagRenderInfo {
+    country: Country;
+    variant: 'trigger' | 'item' | 'label'; // 'label': PhoneNumberLabel
+}
+
+export interface CountryPickerTriggerRenderInfo {
+    country: Country | undefined; // Nothing picked yet
+    isOpen: boolean;
+    disabled: boolean;
+    onPress: () => void;
+}
+
+export interface SearchRenderInfo {
+    value: string;
+    onChangeText: (text: string) => void;
+    placeholder: string;
+    inputRef: React.RefObject<TextInput | null>;
+    onFocus: () => void; // Lets the sheet picker expand while searching
+    // Arrow keys, Enter and Escape drive the list while the search field has focus
+    onKeyPress: (e: NativeSyntheticEvent<TextInputKeyPressEventData>) => void;
+    onSubmitEditing: () => void;
+}
+
+export interface EmptyRenderInfo {
+    query: string;
+}
+
+export interface CountryPickerProps {
+    value?: CountryCode;
+    onSelect: (country: Country) => void;
+    // Phone-specific by default; hide for address, billing and similar forms
+    showCallingCode?: boolean;
+    locale?: string;
+    theme?: PhoneInputThemeOverride;
+    colorScheme?: PhoneInputColorScheme;
+    direction?: 'ltr' | 'rtl';
+    labels?: Partial<PhoneInputLabels>;
+    disabled?: boolean;
+
+    // Open state; uncontrolled when `isOpen` is not set
+    isOpen?: boolean;
+    onOpenChange?: (isOpen: boolean) => void;
+    // Called after Enter or Escape closes the list, e.g. to focus the next field
+    onKeyboardClose?: () => void;
+
+    // Data Configuration
+    preferredCountries?: CountryCode[];
+    allowedCountries?: CountryCode[];
+    excludedCountries?: CountryCode[];
+    recentCountries?: boolean | RecentCountriesOptions;
+
+    // UI Logic
+    placeholderTextColor?: string;
+    searchPlaceholder?: string; // Shorthand for `labels.searchPlaceholder`
+    pickerType?: 'dropdown' | 'modal' | 'sheet' | 'fullscreen';
+    modalHeight?: number; // Also the dropdown's maximum height
+    sheetSnapPoints?: number[];
+    safeAreaInsets?: SheetInsets;
+    modalBackground?: string;
+    showAlphabetIndex?: boolean;
+    // The dropdown lines up with this view instead of the trigger (the phone input uses the whole field)
+    anchorRef?: React.RefObject<View | null>;
+    // Drops the trigger's own field styling so it can sit inside another field
+    embedded?: boolean;
+
+    // Styling Overrides
+    triggerStyle?: StyleProp<ViewStyle>;
+    modalContentStyle?: StyleProp<ViewStyle>;
+    flagStyle?: StyleProp<ImageStyle>;
+    callingCodeStyle?: StyleProp<TextStyle>; // Trigger text (country name when calling codes are hidden)
+    arrowStyle?: StyleProp<TextStyle>;
+    dropdownStyle?: StyleProp<ViewStyle>;
+    dropdownItemStyle?: StyleProp<ViewStyle>;
+    dropdownItemTextStyle?: StyleProp<TextStyle>;
+    searchStyle?: StyleProp<ViewStyle>;
+    searchInputStyle?: StyleProp<TextStyle>;
+
+    // Render Props
+    renderTrigger?: (info: CountryPickerTriggerRenderInfo) => React.ReactNode;
+    renderFlag?: (info: FlagRenderInfo) => React.ReactNode;
+    renderCallingCode?: (country: Country) => React.ReactNode;
+    renderCountryItem?: (info: CountryItemRenderInfo) => React.ReactNode;
+    renderSearch?: (info: SearchRenderInfo) => React.ReactNode;
+    renderEmpty?: (info: EmptyRenderInfo) => React.ReactNode;
+}
+
+// Country data for the view; remembering picks is left to whoever owns the list
+export type CountryPickerListState = Omit<UseCountryListResult, 'rememberCountry'>;
+
+export interface CountryPickerViewProps extends CountryPickerProps {
+    list: CountryPickerListState;
+}
+
+const DEFAULT_SNAP_POINTS = [0.5, 0.9];
+
+// --- Helpers ---
+
+const focusForAccessibility = (component: View | TextInput | null) => {
+    if (component) {
+        AccessibilityInfo.sendAccessibilityEvent(component, 'focus');
+    }
+};
+
+// --- Component ---
+
+// Searchable country list with its trigger, over country data from `useCountryList`
+export const CountryPicker = React.memo(forwardRef<CountryPickerRef, CountryPickerProps>((props, ref) => {
+    const { locale, preferredCountries, allowedCountries, excludedCountries, recentCountries, onSelect } = props;
+    const { rememberCountry, ...list } = useCountryList({
+        locale,
+        preferredCountries,
+        allowedCountries,
+        excludedCountries,
+        recentCountries,
+    });
+
+    const handleSelect = useCallback((country: Country) => {
+        rememberCountry(country);
+        onSelect(country);
+    }, [rememberCountry, onSelect]);
+
+    return <CountryPickerView {...props} ref={ref} onSelect={handleSelect} list={list} />;
+}));
+
+// The picker over list state owned elsewhere; `InternationalPhoneInput` passes the state of its `usePhoneInput`
+// so the list is built once
+export const CountryPickerView = React.memo(forwardRef<CountryPickerRef, CountryPickerViewProps>((props, ref) => {
+    const {
+        value,
+        onSelect,
+        showCallingCode = true,
+        locale,
+        theme: themeOverride,
+        colorScheme,
+        direction,
+        labels,
+        disabled,
+        isOpen: isOpenProp,
+        onOpenChange,
+        onKeyboardClose,
+        preferredCountries,
+        list,
+        placeholderTextColor: placeholderTextColorProp,
+        searchPlaceholder,
+        pickerType = 'dropdown',
+        modalHeight = 300,
+        sheetSnapPoints = DEFAULT_SNAP_POINTS,
+        safeAreaInsets,
+        modalBackground: modalBackgroundProp,
+        showAlphabetIndex,
+        anchorRef,
+        embedded,
+        triggerStyle,
+        modalContentStyle,
+        flagStyle,
+        callingCodeStyle,
+        arrowStyle,
+        dropdownStyle,
+        dropdownItemStyle,
+        dropdownItemTextStyle,
+        searchStyle,
+        searchInputStyle,
+        renderTrigger,
+        renderFlag,
+        renderCallingCode,
+        renderCountryItem,
+        renderSearch,
+        renderEmpty: renderEmptyProp,
+    } = props;
+
+    const { countries, recentCountries, filteredCountries, searchQuery, setSearchQuery } = list;
+
+    const theme = usePhoneInputTheme(themeOverride, colorScheme);
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const placeholderTextColor = placeholderTextColorProp ?? theme.colors.placeholder;
+    const modalBackground = modalBackgroundProp ?? theme.colors.surface;
+
+    const isRTL = (direction ?? (I18nManager.isRTL ? 'rtl' : 'ltr')) === 'rtl';
+    const directionStyle = isRTL ? styles.rtl : styles.ltr;
+
+    const [isOpenState, setIsOpenState] = useState(false);
+    const isOpen = isOpenProp ?? isOpenState;
+    const setIsOpen = useCallback((next: boolean) => {
+        setIsOpenState(next);
+        onOpenChange?.(next);
+    }, [onOpenChange]);
+
+    const triggerRef = useRef<View>(null);
+    const searchInputRef = useRef<TextInput>(null);
+    const listRef = useRef<FlashList<CountryListItem>>(null);
+    const [isSearchFocused, setIsSearchFocused] = useState(false);
+    const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+    const keyboardHeight = useRef(0);
+    const [dropdownLayout, setDropdownLayout] = useState<DropdownLayout | null>(null);
+    const { height: windowHeight } = useWindowDimensions();
+
+    const t = useMemo(() => {
+        const resolved = getLabels(locale, labels);
+        return { ...resolved, searchPlaceholder: searchPlaceholder ?? resolved.searchPlaceholder };
+    }, [locale, labels, searchPlaceholder]);
+
+    // Excluded or unknown values still show in the trigger
+    const selectedCountry = useMemo(
+        () => (value ? countries.find(c => c.iso2 === value) ?? getCountryByIso2(value, locale) : undefined),
+        [value, countries, locale]
+    );
+
+    const countryLabel = useCallback(
+        (country: Country) => (showCallingCode ? formatLabel(t.countryLabel, country) : country.name),
+        [showCallingCode, t]
+    );
+
+    // --- Handlers ---
+
+    const closePicker = useCallback(() => setIsOpen(false), [setIsOpen]);
+
+    const handleSelectCountry = useCallback((country: Country) => {
+        setSearchQuery('');
+        setIsOpen(false);
+        onSelect(country);
+    }, [setSearchQuery, setIsOpen, onSelect]);
+
+    // The dropdown renders in an overlay above everything else, so it is placed from the anchor's window position
+    const measureDropdown = useCallback((onMeasured?: () => void) => {
+        (anchorRef ?? triggerRef).current?.measureInWindow((x, y, width, height) => {
+            setDropdownLayout(getDropdownLayout({
+                anchor: { x, y, width, height },
+                windowHeight,
+                keyboardHeight: keyboardHeight.current,
+                preferredHeight: modalHeight,
+                gap: theme.spacing.xs,
+                margin: theme.spacing.sm,
+                topInset: safeAreaInsets?.top,
+            }));
+            onMeasured?.();
+        });
+    }, [anchorRef, windowHeight, modalHeight, theme, safeAreaInsets]);
+
+    const openPicker = useCallback(() => {
+        if (disabled || isOpen) return;
+        // Measure before opening so the dropdown never flashes in the wrong place
+        if (pickerType === 'dropdown') {
+            measureDropdown(() => setIsOpen(true));
+            return;
+        }
+        setIsOpen(true);
+    }, [disabled, isOpen, pickerType, measureDropdown, setIsOpen]);
+
+    const togglePicker = useCallback(() => {
+        if (isOpen) {
+            closePicker();
+        } else {
+            openPicker();
+        }
+    }, [isOpen, openPicker, closePicker]);
+
+    // Re-measure on rotation and when opened without the trigger (e.g. programmatically)
+    useEffect(() => {
+        if (pickerType !== 'dropdown') return;
+        if (isOpen) {
+            measureDropdown();
+        } else {
+            setDropdownLayout(null);
+        }
+    }, [pickerType, isOpen, measureDropdown]);
+
+    // Keep the dropdown above the keyboard
+    useEffect(() => {
+        if (pickerType !== 'dropdown') return;
+
+        const showSub = Keyboard.addListener(
+            Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow',
+            e => {
+                keyboardHeight.current = e.endCoordinates.height;
+                if (isOpen) measureDropdown();
+            }
+        );
+        const hideSub = Keyboard.addListener(
+            Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide',
+            () => {
+                keyboardHeight.current = 0;
+                if (isOpen) measureDropdown();
+            }
+        );
+        return () => {
+            showSub.remove();
+            hideSub.remove();
+        };
+    }, [pickerType, isOpen, measureDropdown]);
+
+    // Move screen-reader focus into the search field on open and back to the trigger on close
+    const wasOpen = useRef(isOpen);
+    useEffect(() => {
+        if (wasOpen.current === isOpen) return;
+        wasOpen.current = isOpen;
+        focusForAccessibility(isOpen ? searchInputRef.current : triggerRef.current);
+        if (!isOpen) {
+            setIsSearchFocused(false);
+        }
+    }, [isOpen]);
+
+    const handleSearchFocus = useCallback(() => setIsSearchFocused(true), []);
+
+    // --- Rendering ---
+
+    // Preferred, recent and A–Z sections while browsing; search results stay a single ranked list
+    const sections = useMemo((): CountrySections => {
+        if (searchQuery) {
+            return { items: toFlatList(filteredCountries), stickyHeaderIndices: [], letters: [] };
+        }
+        return buildCountrySections({
+            countries: filteredCountries,
+            preferred: filteredCountries.filter(c => preferredCountries?.includes(c.iso2 as CountryCode)),
+            recent: recentCountries,
+            preferredTitle: t.preferredSection,
+            recentTitle: t.recentSection,
+            locale,
+        });
+    }, [searchQuery, filteredCountries, preferredCountries, recentCountries, t, locale]);
+
+    const scrollToSection = useCallback((index: number) => {
+        listRef.current?.scrollToIndex({ index, animated: false });
+    }, []);
+
+    // --- Keyboard Navigation ---
+
+    // Start on the selected country while browsing, on the top result while searching
+    useEffect(() => {
+        if (!isOpen) return;
+        const selectedIndex = searchQuery
+            ? -1
+            : sections.items.findIndex(item => item.type === 'country' && item.country.iso2 === value);
+        setHighlightedIndex(selectedIndex !== -1 ? selectedIndex : moveHighlight(sections.items, -1, 1));
+    }, [isOpen, sections, searchQuery, value]);
+
+    const highlight = useCallback((index: number) => {
+        if (index === -1) return;
+        setHighlightedIndex(index);
+        listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }, []);
+
+    // Key events only carry arrows, Home/End and Escape on web; native keyboards and D-pads (Android TV)
+    // move focus between the rows instead, and the focused row becomes the highlight
+    const handlePickerKey = useCallback((key: string, allowTypeAhead: boolean): boolean => {
+        const { items } = sections;
+        switch (key) {
+            case 'ArrowDown':
+                highlight(moveHighlight(items, highlightedIndex, 1));
+                return true;
+            case 'ArrowUp':
+                highlight(moveHighlight(items, highlightedIndex, -1));
+                return true;
+            case 'Home':
+                highlight(moveHighlight(items, -1, 1));
+                return true;
+            case 'End':
+                highlight(moveHighlight(items, items.length, -1));
+                return true;
+            case 'Enter': {
+                const item = items[highlightedIndex];
+                if (item?.type !== 'country') return false;
+                handleSelectCountry(item.country);
+                onKeyboardClose?.();
+                return true;
+            }
+            case 'Escape':
+                closePicker();
+                onKeyboardClose?.();
+                return true;
+        }
+
+        // Letters typed into a field that can't take them (e.g. the phone number) jump through the list instead
+        if (allowTypeAhead && /^\p{L}$/u.test(key)) {
+            highlight(findTypeAhead(items, highlightedIndex, key, locale));
+            return true;
+        }
+        return false;
+    }, [sections, highlightedIndex, highlight, handleSelectCountry, closePicker, onKeyboardClose, locale]);
+
+    // Expose Ref Methods
+    useImperativeHandle(ref, () => ({
+        open: openPicker,
+        close: closePicker,
+        handleKeyPress: (key: string) => isOpen && handlePickerKey(key, true),
+    }));
+
+    const handleSearchKeyPress = useCallback((e: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+        handlePickerKey(e.nativeEvent.key, false);
+    }, [handlePickerKey]);
+
+    // Android reports Enter on single-line inputs only as a submit
+    const handleSearchSubmit = useCallback(() => handlePickerKey('Enter', false), [handlePickerKey]);
+
+    const renderCountry = useCallback((item: Country, index: number, isHighlighted: boolean) => {
+        const isSelected = item.iso2 === value;
+        const onPress = () => handleSelectCountry(item);
+
+        return (
+            <Pressable
+                style={[
+                    styles.item,
+                    showAlphabetIndex && styles.itemBesideIndex,
+                    dropdownItemStyle,
+                    isHighlighted && styles.itemHighlighted,
+                ]}
+                onPress={onPress}
+                focusable
+                onFocus={() => setHighlightedIndex(index)}
+                // `role` wins where supported; older React Native versions fall back to `accessibilityRole`
+                role="option"
+                accessibilityRole="button"
+                accessibilityLabel={countryLabel(item)}
+                accessibilityState={{ selected: isSelected }}
+            >
+                {renderCountryItem ? renderCountryItem({ country: item, isSelected, isHighlighted, onPress }) : (
+                    <>
+                        <View style={styles.flagContainer}>
+                            {renderFlag ? renderFlag({ country: item, variant: 'item' }) : (
+                                <Image
+                                    source={flags[item.iso2]}
+                                    style={[styles.itemFlag, flagStyle]}
+                                    resizeMode="cover"
+                                />
+                            )}
+                        </View>
+                        <Text style={[styles.itemName, isRTL && styles.textRTL, dropdownItemTextStyle]}>{item.name}</Text>
+                        {showCallingCode && (
+                            <Text style={[styles.itemCode, dropdownItemTextStyle]}>{isolateLTR(`+${item.callingCode}`, isRTL)}</Text>
+                        )}
+                    </>
+                )}
+            </Pressable>
+        );
+    }, [handleSelectCountry, dropdownItemStyle, dropdownItemTextStyle, flagStyle, countryLabel, value, isRTL, styles, renderCountryItem, renderFlag, showAlphabetIndex, showCallingCode]);
+
+    const renderItem = useCallback(({ item, index }: { item: CountryListItem; index: number }) => (
+        item.type === 'header'
+            ? <Text style={[styles.sectionHeader, isRTL && styles.textRTL]} accessibilityRole="header">{item.title}</Text>
+            : renderCountry(item.country, index, index === highlightedIndex)
+    ), [renderCountry, styles, isRTL, highlightedIndex]);
+
+    const renderEmpty = useCallback(() => (
+        renderEmptyProp
+            ? <>{renderEmptyProp({ query: searchQuery })}</>
+            : <Text style={styles.emptyText}>{t.noResults}</Text>
+    ), [t, styles, renderEmptyProp, searchQuery]);
+
+    const renderSearchInput = (autoFocus: boolean) => (
+        renderSearch ? renderSearch({
+            value: searchQuery,
+            onChangeText: setSearchQuery,
+            placeholder: t.searchPlaceholder,
+            inputRef: searchInputRef,
+            onFocus: handleSearchFocus,
+            onKeyPress: handleSearchKeyPress,
+            onSubmitEditing: handleSearchSubmit,
+        }) : (
+            <TextInput
+                ref={searchInputRef}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                placeholder={t.searchPlaceholder}
+                placeholderTextColor={placeholderTextColor}
+                accessibilityRole="search"
+                accessibilityLabel={t.searchLabel}
+                style={[styles.searchInput, isRTL && styles.textRTL, searchInputStyle, searchStyle]}
+                autoFocus={autoFocus}
+                onFocus={handleSearchFocus}
+                onKeyPress={handleSearchKeyPress}
+                onSubmitEditing={handleSearchSubmit}
+                returnKeyType="done"
+            />
+        )
+    );
+
+    const renderList = () => (
+        <>
+            <FlashList
+                ref={listRef}
+                data={sections.items}
+                renderItem={renderItem}
+                estimatedItemSize={48}
+                keyExtractor={(item) => item.key}
+                getItemType={(item) => item.type}
+                stickyHeaderIndices={sections.stickyHeaderIndices}
+                ListEmptyComponent={renderEmpty}
+                keyboardShouldPersistTaps="always"
+                extraData={highlightedIndex}
+            />
+            {showAlphabetIndex && sections.letters.length > 0 && (
+                <View style={styles.alphabetIndex}>
+                    {sections.letters.map(({ letter, index }) => (
+                        <Pressable
+                            key={letter}
+                            onPress={() => scrollToSection(index)}
+                            hitSlop={{ left: 8, right: 8 }}
+                            accessibilityRole="button"
+                            accessibilityLabel={t.sectionIndexLabel.replace('{letter}', letter)}
+                        >
+                            <Text style={styles.alphabetIndexLetter}>{letter}</Text>
+                        </Pressable>
+                    ))}
+                </View>
+            )}
+        </>
+    );
+
+    const renderTriggerContent = () => {
+        if (renderTrigger) {
+            return renderTrigger({ country: selectedCountry, isOpen, disabled: !!disabled, onPress: togglePicker });
+        }
+        if (!selectedCountry) {
+            return (
+                <>
+                    <Text style={[styles.triggerPlaceholder, isRTL && styles.textRTL, callingCodeStyle]}>{t.pickerTitle}</Text>
+                    <Text style={[styles.arrow, arrowStyle]}>{isOpen ? t.arrowOpen : t.arrowClosed}</Text>
+                </>
+            );
+        }
+        return (
+            <>
+                <View style={styles.selectedFlagContainer}>
+                    {renderFlag ? renderFlag({ country: selectedCountry, variant: 'trigger' }) : (
+                        <Image
+                            source={flags[selectedCountry.iso2]}
+                            style={[styles.selectedFlag, flagStyle]}
+                            resizeMode="cover"
+                        />
+                    )}
+                </View>
+                {showCallingCode ? (
+                    renderCallingCode ? renderCallingCode(selectedCountry) : (
+                        <Text style={[styles.callingCode, callingCodeStyle]}>{isolateLTR(`+${selectedCountry.callingCode}`, isRTL)}</Text>
+                    )
+                ) : (
+                    <Text style={[styles.triggerName, isRTL && styles.textRTL, callingCodeStyle]}>{selectedCountry.name}</Text>
+                )}
+                <Text style={[styles.arrow, arrowStyle]}>{isOpen ? t.arrowOpen : t.arrowClosed}</Text>
+            </>
+        );
+    };
+
+    // Calculate list height (dropdown height minus search input height ~50px)
+    const listHeight = Math.max((dropdownLayout?.height ?? modalHeight) - 50, 0);
+
+    return (
+        <>
+            <Pressable
+                ref={triggerRef}
+                onPress={togglePicker}
+                style={[
+                    embedded ? styles.embeddedTrigger : styles.trigger,
+                    !embedded && directionStyle,
+                    !embedded && disabled && styles.disabled,
+                    triggerStyle,
+                ]}
+                accessibilityRole="combobox"
+                accessibilityLabel={selectedCountry
+                    ? `${showCallingCode ? t.countryPickerLabel : t.countryFieldLabel}, ${countryLabel(selectedCountry)}`
+                    : t.pickerTitle}
+                accessibilityState={{ expanded: isOpen, disabled: !!disabled }}
+            >
+                {renderTriggerContent()}
+            </Pressable>
+
+            {/* Dropdown Picker (overlay layer, so ScrollViews and siblings can't clip it) */}
+            {pickerType === 'dropdown' && (
+                <Modal
+                    visible={isOpen && !!dropdownLayout}
+                    transparent
+                    animationType="none"
+                    statusBarTranslucent
+                    onRequestClose={closePicker}
+                >
+                    <TouchableWithoutFeedback
+                        onPress={closePicker}
+                        accessibilityRole="button"
+                        accessibilityLabel={t.closePickerLabel}
+                    >
+                        <View style={styles.overlay} />
+                    </TouchableWithoutFeedback>
+
+                    {dropdownLayout && (
+                        <View
+                            style={[
+                                styles.dropdown,
+                                directionStyle,
+                                dropdownStyle,
+                                {
+                                    top: dropdownLayout.top,
+                                    left: dropdownLayout.left,
+                                    width: dropdownLayout.width,
+                                    backgroundColor: modalBackground,
+                                }
+                            ]}
+                        >
+                            {renderSearchInput(false)}
+                            <View style={{ height: listHeight }} accessibilityRole="list">
+                                {renderList()}
+                            </View>
+                        </View>
+                    )}
+                </Modal>
+            )}
+
+            {/* Modal Picker */}
+
+            <Modal
+                visible={isOpen && pickerType === 'modal'}
+                transparent
+                animationType="slide"
+                onRequestClose={closePicker}
+            >
+                <TouchableOpacity
+                    style={styles.modalOverlay}
+                    activeOpacity={1}
+                    onPress={closePicker}
+                    accessibilityRole="button"
+                    accessibilityLabel={t.closePickerLabel}
+                >
+                    <View style={{ flex: 1 }} />
+                </TouchableOpacity>
+
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    style={styles.modalKeyboardView}
+                >
+                    <View
+                        style={[
+                            styles.modalContent,
+                            directionStyle,
+                            modalContentStyle,
+                            { height: modalHeight, backgroundColor: modalBackground }
+                        ]}
+                        accessibilityViewIsModal
+                    >
+                        {renderSearchInput(true)}
+
+                        <View style={styles.modalList} accessibilityRole="list">
+                            {renderList()}
+                        </View>
+                    </View>
+                </KeyboardAvoidingView>
+            </Modal>
+
+            {/* Full-screen Picker */}
+            {pickerType === 'fullscreen' && (
+                <Modal
+                    visible={isOpen}
+                    animationType="slide"
+                    onRequestClose={closePicker}
+                >
+                    <View
+                        style={[
+                            styles.fullscreen,
+                            directionStyle,
+                            modalContentStyle,
+                            {
+                                backgroundColor: modalBackground,
+                                paddingTop: safeAreaInsets?.top ?? 0,
+                                paddingBottom: safeAreaInsets?.bottom ?? 0,
+                            }
+                        ]}
+                        accessibilityViewIsModal
+                    >
+                        <View style={styles.fullscreenHeader}>
+                            <Pressable
+                                onPress={closePicker}
+                                style={styles.closeButton}
+                                hitSlop={8}
+                                accessibilityRole="button"
+                                accessibilityLabel={t.closePickerLabel}
+                            >
+                                <Text style={styles.closeButtonText}>{t.closeButton}</Text>
+                            </Pressable>
+                            <Text style={styles.fullscreenTitle} accessibilityRole="header">{t.pickerTitle}</Text>
+                        </View>
+
+                        {renderSearchInput(true)}
+
+                        <KeyboardAvoidingView
+                            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                            style={styles.modalList}
+                        >
+                            <View style={styles.modalList} accessibilityRole="list">
+                                {renderList()}
+                            </View>
+                        </KeyboardAvoidingView>
+                    </View>
+                </Modal>
+            )}
+
+            {/* Sheet Picker */}
+            {pickerType === 'sheet' && (
+                <PickerSheet
+                    visible={isOpen}
+                    onClose={closePicker}
+                    snapPoints={sheetSnapPoints}
+                    isExpanded={isSearchFocused}
+                    insets={safeAreaInsets}
+                    theme={theme}
+                    backgroundColor={modalBackground}
+                    closeLabel={t.closePickerLabel}
+                    style={[directionStyle, modalContentStyle]}
+                    header={renderSearchInput(false)}
+                >
+                    <View style={styles.modalList} accessibilityRole="list">
+                        {renderList()}
+                    </View>
+                </PickerSheet>
+            )}
+        </>
+    );
+}));
+
+const createStyles = ({ colors, radii, spacing, typography }: PhoneInputTheme) => StyleSheet.create({
+    ltr: {
+        direction: 'ltr',
+    },
+    rtl: {
+        direction: 'rtl',
+    },
+    textRTL: {
+        textAlign: 'right',
+    },
+    // Standalone: looks like the phone input's field
+    trigger: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        height: spacing.inputHeight,
+        paddingHorizontal: spacing.md,
+        borderRadius: radii.input,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.background,
+    },
+    embeddedTrigger: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        height: '100%',
+        paddingStart: spacing.md,
+        paddingEnd: spacing.sm,
+    },
+    disabled: {
+        opacity: 0.5,
+        backgroundColor: colors.disabledBackground,
+    },
+    selectedFlagContainer: {
+        width: 24,
+        height: 16,
+        borderRadius: radii.flag,
+        overflow: 'hidden',
+        marginEnd: 6,
+    },
+    selectedFlag: {
+        width: '100%',
+        height: '100%',
+    },
+    callingCode: {
+        fontSize: typography.inputSize,
+        fontWeight: typography.mediumWeight,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
+        marginEnd: spacing.xs,
+    },
+    triggerName: {
+        flex: 1,
+        fontSize: typography.inputSize,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
+        marginEnd: spacing.xs,
+    },
+    triggerPlaceholder: {
+        flex: 1,
+        fontSize: typography.inputSize,
+        fontFamily: typography.fontFamily,
+        color: colors.placeholder,
+        marginEnd: spacing.xs,
+    },
+    arrow: {
+        fontSize: typography.arrowSize,
+        color: colors.secondaryText,
+    },
+    overlay: {
+        ...StyleSheet.absoluteFillObject,
+    },
+    dropdown: {
+        position: 'absolute',
+        borderRadius: radii.dropdown,
+        borderWidth: 1,
+        borderColor: colors.divider,
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    modalOverlay: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: colors.backdrop,
+    },
+    modalKeyboardView: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+    },
+    modalContent: {
+        width: '100%',
+        borderTopLeftRadius: radii.sheet,
+        borderTopRightRadius: radii.sheet,
+        overflow: 'hidden',
+        backgroundColor: colors.surface,
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 12,
+        elevation: 10,
+    },
+    modalList: {
+        flex: 1,
+    },
+    fullscreen: {
+        flex: 1,
+        backgroundColor: colors.surface,
+    },
+    fullscreenHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.divider,
+    },
+    closeButton: {
+        padding: spacing.sm,
+    },
+    closeButtonText: {
+        fontSize: typography.itemSize,
+        color: colors.text,
+    },
+    fullscreenTitle: {
+        flex: 1,
+        marginEnd: spacing.lg * 2, // Balances the close button so the title stays centered
+        textAlign: 'center',
+        fontSize: typography.inputSize,
+        fontFamily: typography.fontFamily,
+        fontWeight: typography.mediumWeight,
+        color: colors.text,
+    },
+    searchInput: {
+        padding: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.divider,
+        fontSize: typography.secondarySize,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
+        backgroundColor: colors.searchBackground,
+    },
+    item: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: spacing.md,
+        backgroundColor: colors.surface,
+    },
+    itemHighlighted: {
+        backgroundColor: colors.highlight,
+    },
+    // Keeps calling codes clear of the alphabet index
+    itemBesideIndex: {
+        paddingEnd: spacing.lg + spacing.md,
+    },
+    flagContainer: {
+        width: 24,
+        height: 16,
+        borderRadius: radii.flag,
+        overflow: 'hidden',
+        marginEnd: spacing.md,
+    },
+    itemFlag: {
+        width: '100%',
+        height: '100%',
+    },
+    itemName: {
+        flex: 1,
+        fontSize: typography.itemSize,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
+    },
+    itemCode: {
+        fontSize: typography.secondarySize,
+        fontFamily: typography.fontFamily,
+        color: colors.secondaryText,
+        fontWeight: typography.mediumWeight,
+    },
+    sectionHeader: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.xs,
+        fontSize: typography.secondarySize,
+        fontFamily: typography.fontFamily,
+        fontWeight: typography.mediumWeight,
+        color: colors.secondaryText,
+        backgroundColor: colors.searchBackground,
+    },
+    alphabetIndex: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        end: 0,
+        justifyContent: 'space-evenly',
+        alignItems: 'center',
+        paddingHorizontal: spacing.xs,
+    },
+    alphabetIndexLetter: {
+        fontSize: 10,
+        fontFamily: typography.fontFamily,
+        fontWeight: typography.mediumWeight,
+        color: colors.secondaryText,
+    },
+    emptyText: {
+        padding: spacing.lg,
+        fontSize: typography.secondarySize,
+        fontFamily: typography.fontFamily,
+        color: colors.secondaryText,
+        textAlign: 'center',
+    },
+});
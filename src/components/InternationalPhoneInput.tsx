@@ -1,25 +1,43 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
 import {
     View,
     Text,
     TextInput,
-    Pressable,
-    Image,
     StyleSheet,
-    Keyboard,
     ViewStyle,
     TextStyle,
     ImageStyle,
+    NativeSyntheticEvent,
+    TextInputKeyPressEventData,
     StyleProp,
-    TouchableWithoutFeedback,
-    Modal,
-    TouchableOpacity,
-    KeyboardAvoidingView,
-    Platform
+    I18nManager,
 } from 'react-native';
-import { FlashList } from '@shopify/flash-list';
-import { AsYouType, parsePhoneNumber, CountryCode } from 'libphonenumber-js';
-import { countryList, flags, Country } from '../data/countryList';
+import { CountryCode } from 'libphonenumber-js';
+import { Country } from '../data/countryList';
+import { getLabels, PhoneInputLabels } from '../data/locales';
+import { usePhoneInputTheme } from '../theme/PhoneInputThemeProvider';
+import { PhoneInputTheme, PhoneInputThemeOverride, PhoneInputColorScheme } from '../theme/theme';
+import { CountryResolver } from '../utils/deviceRegion';
+import { RecentCountriesOptions } from '../utils/recentCountries';
+import { formatPhone, PhoneNumberFormat } from '../utils/phoneUtils';
+import { SheetInsets } from './PickerSheet';
+import {
+    CountryPickerView,
+    CountryPickerListState,
+    CountryPickerRef,
+    CountryPickerTriggerRenderInfo,
+    CountryItemRenderInfo,
+    FlagRenderInfo,
+    SearchRenderInfo,
+    EmptyRenderInfo,
+} from './CountryPicker';
+import {
+    usePhoneInput,
+    PhoneNumberDetails,
+    PhoneNumberType,
+    PhoneValidationReason,
+    PhoneValidationResult,
+} from '../hooks/usePhoneInput';
 
 // --- Interfaces ---
 
@@ -29,27 +47,77 @@ export interface InternationalPhoneInputRef {
     setCountry: (iso2: CountryCode) => void;
     getCountry: () => Country;
     isValid: () => boolean;
+    validate: () => PhoneValidationResult;
+    // Value access, mainly for uncontrolled inputs; `setValue` and `clear` report through `onChange`
+    getValue: () => string;
+    getE164: () => string | undefined;
+    getFormatted: (format: PhoneNumberFormat) => string;
+    setValue: (value: string) => void;
+    clear: () => void;
+}
+
+// Picker render info lives with `CountryPicker`; re-exported here for existing imports
+export type { CountryItemRenderInfo, FlagRenderInfo, SearchRenderInfo, EmptyRenderInfo };
+
+export interface TriggerRenderInfo {
+    country: Country;
+    isOpen: boolean;
+    disabled: boolean;
+    onPress: () => void;
 }
 
 export interface InternationalPhoneInputProps {
-    value: string;
-    onChange: (value: string, iso2: CountryCode) => void;
+    // Omit `value` for an uncontrolled input; `defaultValue` is then applied once on mount
+    value?: string;
+    defaultValue?: string;
+    onChange?: (value: string, iso2: CountryCode) => void;
+    onChangeDetails?: (details: PhoneNumberDetails) => void;
+    onValidationChange?: (result: PhoneValidationResult) => void;
+    onBlur?: () => void; // Phone field only; lets form libraries mark the field as touched
     defaultCountry?: CountryCode;
+    // Device region (via `expo-localization` or `Intl`), or a custom resolver such as a SIM/IP lookup
+    autoDetectCountry?: boolean | CountryResolver;
+    // Country names, UI strings, search and sort order; bundled: tr, de, fr, es, ar
+    locale?: string;
+    // Per-instance overrides on top of the active preset / `PhoneInputThemeProvider`
+    theme?: PhoneInputThemeOverride;
+    // Defaults to the provider's scheme, or 'light' without a provider
+    colorScheme?: PhoneInputColorScheme;
+    // Defaults to `I18nManager.isRTL`; phone digits always stay left-to-right
+    direction?: 'ltr' | 'rtl';
+    // Overrides for any UI or screen-reader string (see `registerLabels` for app-wide tables)
+    labels?: Partial<PhoneInputLabels>;
     disabled?: boolean;
+    // Turns the border to `colors.error` and becomes the field's accessibility hint
     error?: string;
+    // Also render the error as text under the field; the field is then wrapped in a `View`
+    showErrorText?: boolean;
+
+    // Validation
+    allowedNumberTypes?: PhoneNumberType[];
+    // When set (and `error` is not), the error is derived from the current validation reason
+    errorMessages?: Partial<Record<PhoneValidationReason, string>>;
 
     // Data Configuration
     preferredCountries?: CountryCode[];
     allowedCountries?: CountryCode[];
     excludedCountries?: CountryCode[];
+    // Show the last countries picked in a "Recent" section; pass `storage` (e.g. AsyncStorage) to persist them
+    recentCountries?: boolean | RecentCountriesOptions;
 
     // UI Logic
-    placeholder?: string;
+    placeholder?: string; // Shorthand for `labels.placeholder`
     placeholderTextColor?: string;
-    searchPlaceholder?: string;
-    pickerType?: 'dropdown' | 'modal';
-    modalHeight?: number;
+    searchPlaceholder?: string; // Shorthand for `labels.searchPlaceholder`
+    pickerType?: 'dropdown' | 'modal' | 'sheet' | 'fullscreen';
+    modalHeight?: number; // Also the dropdown's maximum height
+    // Sheet heights as fractions of the screen; opens at the smallest, drags between them
+    sheetSnapPoints?: number[];
+    // Kept clear by the sheet and full-screen pickers
+    safeAreaInsets?: SheetInsets;
     modalBackground?: string;
+    // Letter column beside the list for jumping between sections
+    showAlphabetIndex?: boolean;
 
     // Styling Overrides
     containerStyle?: StyleProp<ViewStyle>;
@@ -64,6 +132,7 @@ export interface InternationalPhoneInputProps {
 
     // Input Section
     inputStyle?: StyleProp<TextStyle>;
+    errorStyle?: StyleProp<TextStyle>;
 
     // Dropdown
     dropdownStyle?: StyleProp<ViewStyle>;
@@ -71,6 +140,14 @@ export interface InternationalPhoneInputProps {
     dropdownItemTextStyle?: StyleProp<TextStyle>;
     searchStyle?: StyleProp<ViewStyle>;
     searchInputStyle?: StyleProp<TextStyle>;
+
+    // Render Props
+    renderTrigger?: (info: TriggerRenderInfo) => React.ReactNode;
+    renderFlag?: (info: FlagRenderInfo) => React.ReactNode;
+    renderCallingCode?: (country: Country) => React.ReactNode;
+    renderCountryItem?: (info: CountryItemRenderInfo) => React.ReactNode;
+    renderSearch?: (info: SearchRenderInfo) => React.ReactNode;
+    renderEmpty?: (info: EmptyRenderInfo) => React.ReactNode;
 }
 
 // --- Component ---
@@ -78,19 +155,36 @@ export interface InternationalPhoneInputProps {
 export const InternationalPhoneInput = React.memo(forwardRef<InternationalPhoneInputRef, InternationalPhoneInputProps>((props, ref) => {
     const {
         value,
+        defaultValue,
         onChange,
+        onChangeDetails,
+        onValidationChange,
+        onBlur,
         defaultCountry = 'TR',
+        autoDetectCountry,
+        locale,
+        theme: themeOverride,
+        colorScheme,
+        direction,
+        labels,
         disabled,
         error,
+        showErrorText = false,
+        allowedNumberTypes,
+        errorMessages,
         preferredCountries,
         allowedCountries,
         excludedCountries,
-        placeholder = 'Phone Number',
-        placeholderTextColor = '#9CA3AF',
-        searchPlaceholder = 'Search...',
-        pickerType = 'dropdown',
-        modalHeight = 300,
-        modalBackground = '#FFFFFF',
+        recentCountries: recentCountriesOption,
+        placeholder,
+        placeholderTextColor: placeholderTextColorProp,
+        searchPlaceholder,
+        pickerType,
+        modalHeight,
+        sheetSnapPoints,
+        safeAreaInsets,
+        modalBackground,
+        showAlphabetIndex,
         containerStyle,
         modalContentStyle,
         flagContainerStyle,
@@ -99,51 +193,79 @@ export const InternationalPhoneInput = React.memo(forwardRef<InternationalPhoneI
         dividerStyle,
         arrowStyle,
         inputStyle,
+        errorStyle,
         dropdownStyle,
         dropdownItemStyle,
         dropdownItemTextStyle,
         searchStyle,
         searchInputStyle,
+        renderTrigger,
+        renderFlag,
+        renderCallingCode,
+        renderCountryItem,
+        renderSearch,
+        renderEmpty,
     } = props;
 
-    // --- Calculations ---
-
-    const finalCountryList = useMemo(() => {
-        let list = [...countryList];
-
-        // Filter allowed
-        if (allowedCountries && allowedCountries.length > 0) {
-            list = list.filter(c => allowedCountries.includes(c.iso2 as CountryCode));
-        }
-
-        // Filter excluded
-        if (excludedCountries && excludedCountries.length > 0) {
-            list = list.filter(c => !excludedCountries.includes(c.iso2 as CountryCode));
-        }
-
-        // Sort preferred to top
-        if (preferredCountries && preferredCountries.length > 0) {
-            const preferred = list.filter(c => preferredCountries.includes(c.iso2 as CountryCode));
-            const others = list.filter(c => !preferredCountries.includes(c.iso2 as CountryCode));
-            // Sort preferred by index in preferredCountries array to respect order
-            preferred.sort((a, b) => preferredCountries.indexOf(a.iso2 as CountryCode) - preferredCountries.indexOf(b.iso2 as CountryCode));
-            list = [...preferred, ...others];
-        }
+    const {
+        selectedCountry,
+        nationalValue,
+        value: currentValue,
+        e164,
+        isValid,
+        validationError,
+        validate,
+        isOpen,
+        countries,
+        recentCountries,
+        filteredCountries,
+        searchQuery,
+        setSearchQuery,
+        handleTextChange,
+        handleSelectCountry,
+        setValue,
+        clear,
+        setCountry,
+        openPicker,
+        closePicker,
+    } = usePhoneInput({
+        value,
+        defaultValue,
+        onChange,
+        onChangeDetails,
+        onValidationChange,
+        defaultCountry,
+        autoDetectCountry,
+        locale,
+        allowedNumberTypes,
+        preferredCountries,
+        allowedCountries,
+        excludedCountries,
+        recentCountries: recentCountriesOption,
+    });
 
-        return list;
-    }, [allowedCountries, excludedCountries, preferredCountries]);
+    // The embedded picker shows the hook's list rather than building its own
+    const pickerList = useMemo<CountryPickerListState>(
+        () => ({ countries, recentCountries, filteredCountries, searchQuery, setSearchQuery }),
+        [countries, recentCountries, filteredCountries, searchQuery, setSearchQuery]
+    );
 
-    // --- State ---
+    const theme = usePhoneInputTheme(themeOverride, colorScheme);
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const placeholderTextColor = placeholderTextColorProp ?? theme.colors.placeholder;
 
-    const [isOpen, setIsOpen] = useState(false);
-    const [internalNational, setInternalNational] = useState('');
-    const [selectedCountry, setSelectedCountry] = useState<Country>(
-        finalCountryList.find(c => c.iso2 === defaultCountry) || finalCountryList[0] || countryList[0]
-    );
-    const [searchQuery, setSearchQuery] = useState('');
+    const isRTL = (direction ?? (I18nManager.isRTL ? 'rtl' : 'ltr')) === 'rtl';
+    const directionStyle = isRTL ? styles.rtl : styles.ltr;
 
-    const isInternalChange = useRef(false);
     const inputRef = useRef<TextInput>(null);
+    const pickerRef = useRef<CountryPickerRef>(null);
+    const containerRef = useRef<View>(null);
+
+    const t = useMemo(() => {
+        const resolved = getLabels(locale, labels);
+        // The standalone placeholder props predate `labels` and still take precedence
+        return { ...resolved, placeholder: placeholder ?? resolved.placeholder };
+    }, [locale, labels, placeholder]);
 
     // --- Logic ---
 
@@ -151,433 +273,186 @@ export const InternationalPhoneInput = React.memo(forwardRef<InternationalPhoneI
     useImperativeHandle(ref, () => ({
         focus: () => inputRef.current?.focus(),
         blur: () => inputRef.current?.blur(),
-        setCountry: (iso2: CountryCode) => {
-            const country = finalCountryList.find(c => c.iso2 === iso2);
-            if (country) {
-                handleSelectCountry(country);
-            }
-        },
+        setCountry,
         getCountry: () => selectedCountry,
-        isValid: () => {
-            const fullNumber = `+${selectedCountry.callingCode}${internalNational}`;
-            try {
-                const parsed = parsePhoneNumber(fullNumber, selectedCountry.iso2 as CountryCode);
-                return parsed ? parsed.isValid() : false;
-            } catch (e) {
-                return false;
-            }
-        }
+        isValid: () => isValid,
+        validate,
+        getValue: () => currentValue,
+        getE164: () => e164,
+        getFormatted: (format: PhoneNumberFormat) => (currentValue ? formatPhone(currentValue, format) : ''),
+        setValue,
+        clear,
     }));
 
-    // Sync prop value
-    useEffect(() => {
-        if (isInternalChange.current) {
-            isInternalChange.current = false;
-            return;
-        }
-
-        if (!value) {
-            setInternalNational('');
-            return;
-        }
-
-        try {
-            // Try parsing with selected country first to keep it if possible
-            let parsed = parsePhoneNumber(value, selectedCountry.iso2 as CountryCode);
-
-            // If invalid or mismatch, try parsing generically
-            if (!parsed || !parsed.isValid()) {
-                try {
-                    parsed = parsePhoneNumber(value);
-                } catch (e) { }
-            }
-
-            if (parsed && parsed.country) {
-                if (parsed.country !== selectedCountry.iso2) {
-                    const newCountry = finalCountryList.find(c => c.iso2 === parsed.country);
-                    if (newCountry) {
-                        setSelectedCountry(newCountry);
-                    }
-                }
-
-                const asYouType = new AsYouType(parsed.country as CountryCode);
-                asYouType.input(value);
-                const formatted = asYouType.getNumber()?.format('NATIONAL') || value;
-                setInternalNational(formatted);
-            } else {
-                setInternalNational(value);
-            }
-        } catch (e) {
-            setInternalNational(value);
-        }
-    }, [value, finalCountryList]); // We depend on finalCountryList to validate availability
-
-    const emitChange = useCallback((text: string, country: Country) => {
-        isInternalChange.current = true;
-
-        const cleanInput = text.replace(/[^0-9+]/g, '');
+    // Explicit `error` wins; derived errors stay hidden until the user has typed something
+    const displayedError = error ?? (
+        errorMessages && nationalValue && validationError ? errorMessages[validationError] : undefined
+    );
 
-        const asYouType = new AsYouType(country.iso2 as CountryCode);
-        asYouType.input(cleanInput);
-        const number = asYouType.getNumber();
+    // --- Handlers ---
 
-        if (number && number.isValid()) {
-            onChange(number.format('E.164'), country.iso2 as CountryCode);
+    const handleOpenChange = useCallback((open: boolean) => {
+        if (open) {
+            openPicker();
         } else {
-            const nationalDigits = cleanInput.replace(/[^0-9]/g, '');
-            onChange('+' + country.callingCode + nationalDigits, country.iso2 as CountryCode);
+            closePicker();
         }
-    }, [onChange]);
-
-    const handleTextChange = useCallback((text: string) => {
-        if (!/^[0-9\s\-()]*$/.test(text)) return; // Strict char check
-
-        const asYouType = new AsYouType(selectedCountry.iso2 as CountryCode);
-        const formatted = asYouType.input(text);
-
-        setInternalNational(formatted);
-        emitChange(text, selectedCountry);
-    }, [selectedCountry, emitChange]);
-
-    // Ref to track current internalNational for country selection
-    const internalNationalRef = useRef(internalNational);
-    internalNationalRef.current = internalNational;
-
-    const handleSelectCountry = useCallback((country: Country) => {
-        const rawDigits = internalNationalRef.current.replace(/[^0-9]/g, '');
-        const asYouType = new AsYouType(country.iso2 as CountryCode);
-        const formatted = asYouType.input(rawDigits);
-
-        // Update state
-        setSelectedCountry(country);
-        setIsOpen(false);
-        setSearchQuery('');
-        setInternalNational(formatted);
-
-        // Emit change after state updates (use setTimeout to avoid render-phase setState)
-        setTimeout(() => {
-            const emitAsYouType = new AsYouType(country.iso2 as CountryCode);
-            emitAsYouType.input(rawDigits);
-            const number = emitAsYouType.getNumber();
-
-            if (number && number.isValid()) {
-                onChange(number.format('E.164'), country.iso2 as CountryCode);
-            } else {
-                onChange('+' + country.callingCode + rawDigits, country.iso2 as CountryCode);
-            }
-        }, 0);
-    }, [onChange]);
-
-    const filteredCountries = useMemo(() => {
-        if (!searchQuery) return finalCountryList;
-        const lower = searchQuery.toLowerCase();
-        return finalCountryList.filter(c =>
-            c.name.toLowerCase().includes(lower) ||
-            c.callingCode.includes(lower) ||
-            c.iso2.toLowerCase().includes(lower)
-        );
-    }, [searchQuery, finalCountryList]);
+    }, [openPicker, closePicker]);
 
-    // --- Handlers ---
-
-    const toggleDropdown = useCallback(() => {
-        if (disabled) return;
-        setIsOpen(prev => !prev);
-    }, [disabled]);
+    // Keyboard selection and Escape hand focus back to the phone input, next in tab order
+    const focusInput = useCallback(() => inputRef.current?.focus(), []);
 
-    const closeDropdown = useCallback(() => {
-        setIsOpen(false);
+    const handleInputKeyPress = useCallback((e: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+        pickerRef.current?.handleKeyPress(e.nativeEvent.key);
     }, []);
 
-    // Close dropdown when keyboard hides
-    useEffect(() => {
-        if (pickerType !== 'dropdown') return;
-
-        const hideSub = Keyboard.addListener(
-            Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide',
-            () => setIsOpen(false)
-        );
-        return () => hideSub.remove();
-    }, [pickerType]);
+    // The phone input always has a country, so its trigger keeps the non-optional render info
+    const renderPickerTrigger = useMemo(() => (
+        renderTrigger
+            ? (info: CountryPickerTriggerRenderInfo) => renderTrigger({ ...info, country: info.country ?? selectedCountry })
+            : undefined
+    ), [renderTrigger, selectedCountry]);
 
     // --- Rendering ---
 
-    const renderItem = useCallback(({ item }: { item: Country }) => (
-        <Pressable
-            style={[styles.item, dropdownItemStyle]}
-            onPress={() => handleSelectCountry(item)}
-        >
-            <View style={styles.flagContainer}>
-                <Image
-                    source={flags[item.iso2]}
-                    style={[styles.itemFlag, flagStyle]}
-                    resizeMode="cover"
-                />
-            </View>
-            <Text style={[styles.itemName, dropdownItemTextStyle]}>{item.name}</Text>
-            <Text style={[styles.itemCode, dropdownItemTextStyle]}>+{item.callingCode}</Text>
-        </Pressable>
-    ), [handleSelectCountry, dropdownItemStyle, dropdownItemTextStyle, flagStyle]);
-
-    // Calculate list height (modalHeight minus search input height ~50px)
-    const listHeight = modalHeight - 50;
-
-    return (
-        <View style={[
+    const field = (
+        <View ref={containerRef} style={[
             styles.container,
+            directionStyle,
             containerStyle,
-            error ? styles.borderError : null,
+            displayedError ? styles.borderError : null,
             disabled && styles.disabled
         ]}>
 
-            {/* Flag Section */}
-            <Pressable onPress={toggleDropdown} style={[styles.leftSection, flagContainerStyle]}>
-                <View style={styles.selectedFlagContainer}>
-                    <Image
-                        source={flags[selectedCountry.iso2]}
-                        style={[styles.selectedFlag, flagStyle]}
-                        resizeMode="cover"
-                    />
-                </View>
-                <Text style={[styles.callingCode, callingCodeStyle]}>+{selectedCountry.callingCode}</Text>
-                <Text style={[styles.arrow, arrowStyle]}>{isOpen ? '▲' : '▼'}</Text>
-            </Pressable>
+            {/* Flag Section and picker */}
+            <CountryPickerView
+                ref={pickerRef}
+                list={pickerList}
+                value={selectedCountry.iso2 as CountryCode}
+                onSelect={handleSelectCountry}
+                isOpen={isOpen}
+                onOpenChange={handleOpenChange}
+                onKeyboardClose={focusInput}
+                anchorRef={containerRef}
+                embedded
+                locale={locale}
+                theme={themeOverride}
+                colorScheme={colorScheme}
+                direction={direction}
+                labels={labels}
+                disabled={disabled}
+                preferredCountries={preferredCountries}
+                placeholderTextColor={placeholderTextColor}
+                searchPlaceholder={searchPlaceholder}
+                pickerType={pickerType}
+                modalHeight={modalHeight}
+                sheetSnapPoints={sheetSnapPoints}
+                safeAreaInsets={safeAreaInsets}
+                modalBackground={modalBackground}
+                showAlphabetIndex={showAlphabetIndex}
+                triggerStyle={flagContainerStyle}
+                modalContentStyle={modalContentStyle}
+                flagStyle={flagStyle}
+                callingCodeStyle={callingCodeStyle}
+                arrowStyle={arrowStyle}
+                dropdownStyle={dropdownStyle}
+                dropdownItemStyle={dropdownItemStyle}
+                dropdownItemTextStyle={dropdownItemTextStyle}
+                searchStyle={searchStyle}
+                searchInputStyle={searchInputStyle}
+                renderTrigger={renderPickerTrigger}
+                renderFlag={renderFlag}
+                renderCallingCode={renderCallingCode}
+                renderCountryItem={renderCountryItem}
+                renderSearch={renderSearch}
+                renderEmpty={renderEmpty}
+            />
 
             <View style={[styles.divider, dividerStyle]} />
 
             {/* Input Section */}
             <TextInput
                 ref={inputRef}
-                value={internalNational}
+                value={nationalValue}
                 onChangeText={handleTextChange}
-                placeholder={placeholder}
+                placeholder={t.placeholder}
                 placeholderTextColor={placeholderTextColor}
+                accessibilityLabel={t.phoneInputLabel}
                 keyboardType="phone-pad"
-                style={[styles.input, inputStyle]}
+                onKeyPress={handleInputKeyPress}
+                onBlur={onBlur}
+                style={[styles.input, isRTL && styles.textRTL, inputStyle]}
                 editable={!disabled}
+                accessibilityHint={displayedError}
             />
+        </View>
+    );
 
-            {/* Dropdown Picker */}
-            {isOpen && pickerType === 'dropdown' && (
-                <>
-                    <TouchableWithoutFeedback onPress={closeDropdown}>
-                        <View style={styles.overlay} />
-                    </TouchableWithoutFeedback>
-
-                    <View style={[styles.dropdown, dropdownStyle, { backgroundColor: modalBackground }]}>
-                        <TextInput
-                            value={searchQuery}
-                            onChangeText={setSearchQuery}
-                            placeholder={searchPlaceholder}
-                            placeholderTextColor={placeholderTextColor}
-                            style={[styles.searchInput, searchInputStyle, searchStyle]}
-                        />
-                        <View style={{ height: listHeight }}>
-                            <FlashList
-                                data={filteredCountries}
-                                renderItem={renderItem}
-                                estimatedItemSize={48}
-                                keyExtractor={(item) => item.iso2}
-                                keyboardShouldPersistTaps="always"
-                                extraData={searchQuery}
-                            />
-                        </View>
-                    </View>
-                </>
-            )}
-
-            {/* Modal Picker */}
-
-            <Modal
-                visible={isOpen && pickerType === 'modal'}
-                transparent
-                animationType="slide"
-                onRequestClose={closeDropdown}
-            >
-                <TouchableOpacity
-                    style={styles.modalOverlay}
-                    activeOpacity={1}
-                    onPress={closeDropdown}
-                >
-                    <View style={{ flex: 1 }} />
-                </TouchableOpacity>
+    if (!showErrorText) return field;
 
-                <KeyboardAvoidingView
-                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-                    style={styles.modalKeyboardView}
+    return (
+        <View>
+            {field}
+            {displayedError ? (
+                <Text
+                    style={[styles.errorText, isRTL && styles.textRTL, errorStyle]}
+                    accessibilityRole="alert"
+                    accessibilityLiveRegion="polite"
                 >
-                    <View
-                        style={[
-                            styles.modalContent,
-                            modalContentStyle,
-                            { height: modalHeight, backgroundColor: modalBackground }
-                        ]}
-                    >
-                        <TextInput
-                            value={searchQuery}
-                            onChangeText={setSearchQuery}
-                            placeholder={searchPlaceholder}
-                            placeholderTextColor={placeholderTextColor}
-                            style={[styles.searchInput, searchInputStyle, searchStyle]}
-                            autoFocus
-                        />
-
-                        <FlashList
-                            data={filteredCountries}
-                            renderItem={renderItem}
-                            estimatedItemSize={48}
-                            keyExtractor={(item) => item.iso2}
-                            keyboardShouldPersistTaps="always"
-                            extraData={searchQuery}
-                        />
-                    </View>
-                </KeyboardAvoidingView>
-            </Modal>
+                    {displayedError}
+                </Text>
+            ) : null}
         </View>
     );
 }));
 
-const styles = StyleSheet.create({
+const createStyles = ({ colors, radii, spacing, typography }: PhoneInputTheme) => StyleSheet.create({
+    ltr: {
+        direction: 'ltr',
+    },
+    rtl: {
+        direction: 'rtl',
+    },
+    textRTL: {
+        textAlign: 'right',
+    },
     container: {
         flexDirection: 'row',
-        height: 56,
-        borderRadius: 8,
+        height: spacing.inputHeight,
+        borderRadius: radii.input,
         borderWidth: 1,
-        backgroundColor: '#FFFFFF',
+        backgroundColor: colors.background,
         alignItems: 'center',
         zIndex: 1,
-        borderColor: '#D1D5DB',
+        borderColor: colors.border,
     },
     borderError: {
-        borderColor: '#EF4444',
+        borderColor: colors.error,
+    },
+    errorText: {
+        marginTop: spacing.xs,
+        fontSize: typography.secondarySize,
+        fontFamily: typography.fontFamily,
+        color: colors.error,
     },
     disabled: {
         opacity: 0.5,
-        backgroundColor: '#F9FAFB',
-    },
-    leftSection: {
-        flexDirection: 'row',
-        alignItems: 'center',
-        height: '100%',
-        paddingLeft: 12,
-        paddingRight: 8,
+        backgroundColor: colors.disabledBackground,
     },
     divider: {
         width: 1,
         height: '60%',
-        backgroundColor: '#E5E7EB',
-        marginRight: 8
-    },
-    selectedFlagContainer: {
-        width: 24,
-        height: 16,
-        borderRadius: 2,
-        overflow: 'hidden',
-        marginRight: 6,
-    },
-    selectedFlag: {
-        width: '100%',
-        height: '100%',
-    },
-    callingCode: {
-        fontSize: 16,
-        fontWeight: '500',
-        color: '#111827',
-        marginRight: 4,
-    },
-    arrow: {
-        fontSize: 10,
-        color: '#6B7280',
+        backgroundColor: colors.divider,
+        marginEnd: spacing.sm
     },
     input: {
         flex: 1,
         height: '100%',
-        paddingRight: 12,
-        fontSize: 16,
-        color: '#111827',
-    },
-    overlay: {
-        position: 'absolute',
-        top: -9999,
-        bottom: -9999,
-        left: -9999,
-        right: -9999,
-        zIndex: 1,
-    },
-    dropdown: {
-        position: 'absolute',
-        top: 60,
-        left: 0,
-        right: 0,
-        borderRadius: 8,
-        borderWidth: 1,
-        borderColor: '#E5E7EB',
-        shadowColor: '#000',
-        shadowOffset: { width: 0, height: 4 },
-        shadowOpacity: 0.15,
-        shadowRadius: 8,
-        elevation: 8,
-        zIndex: 2,
-    },
-    modalOverlay: {
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    },
-    modalKeyboardView: {
-        position: 'absolute',
-        left: 0,
-        right: 0,
-        bottom: 0,
-    },
-    modalContent: {
-        width: '100%',
-        borderTopLeftRadius: 16,
-        borderTopRightRadius: 16,
-        overflow: 'hidden',
-        backgroundColor: '#FFFFFF',
-        shadowColor: '#000',
-        shadowOffset: { width: 0, height: -4 },
-        shadowOpacity: 0.15,
-        shadowRadius: 12,
-        elevation: 10,
-    },
-    searchInput: {
-        padding: 12,
-        borderBottomWidth: 1,
-        borderBottomColor: '#E5E7EB',
-        fontSize: 14,
-        color: '#111827',
-        backgroundColor: '#FAFAFA',
-    },
-    item: {
-        flexDirection: 'row',
-        alignItems: 'center',
-        padding: 12,
-        backgroundColor: '#FFFFFF',
-    },
-    flagContainer: {
-        width: 24,
-        height: 16,
-        borderRadius: 2,
-        overflow: 'hidden',
-        marginRight: 12,
-    },
-    itemFlag: {
-        width: '100%',
-        height: '100%',
-    },
-    itemName: {
-        flex: 1,
-        fontSize: 15,
-        color: '#111827',
-    },
-    itemCode: {
-        fontSize: 14,
-        color: '#6B7280',
-        fontWeight: '500',
+        paddingEnd: spacing.md,
+        // Digits read left-to-right even in RTL layouts (iOS)
+        writingDirection: 'ltr',
+        fontSize: typography.inputSize,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
     },
 });
@@ -0,0 +1,205 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+    View,
+    Text,
+    Pressable,
+    Image,
+    Linking,
+    StyleSheet,
+    I18nManager,
+    ViewStyle,
+    TextStyle,
+    ImageStyle,
+    StyleProp,
+    AccessibilityRole,
+} from 'react-native';
+import { CountryCode } from 'libphonenumber-js';
+import { flags } from '../data/flags';
+import { getLabels, PhoneInputLabels } from '../data/locales';
+import { usePhoneInputTheme } from '../theme/PhoneInputThemeProvider';
+import { PhoneInputTheme, PhoneInputThemeOverride, PhoneInputColorScheme } from '../theme/theme';
+import { getDeviceRegion } from '../utils/deviceRegion';
+import { isolateLTR } from '../utils/bidi';
+import { parsePhone, formatPhone, getCountryByIso2, PhoneNumberFormat, PhoneNumberDetails } from '../utils/phoneUtils';
+import { FlagRenderInfo } from './CountryPicker';
+
+// --- Interfaces ---
+
+export type PhoneNumberAction = 'call' | 'copy';
+
+export interface PhoneNumberTextProps {
+    value: string; // E.164, e.g. the `onChange` value of `InternationalPhoneInput`
+    // Overrides the automatic choice between national and international
+    format?: PhoneNumberFormat;
+    // Numbers from this country are shown in national format, others internationally; defaults to the device region
+    viewerCountry?: CountryCode;
+    pressAction?: PhoneNumberAction;
+    longPressAction?: PhoneNumberAction;
+    // Receives the E.164 number (or the raw value when invalid); defaults to `expo-clipboard` when installed
+    onCopy?: (value: string) => void | Promise<void>;
+    locale?: string;
+    theme?: PhoneInputThemeOverride;
+    colorScheme?: PhoneInputColorScheme;
+    direction?: 'ltr' | 'rtl';
+    labels?: Partial<PhoneInputLabels>;
+    style?: StyleProp<TextStyle>;
+}
+
+export interface PhoneNumberLabelProps extends PhoneNumberTextProps {
+    containerStyle?: StyleProp<ViewStyle>;
+    flagContainerStyle?: StyleProp<ViewStyle>;
+    flagStyle?: StyleProp<ImageStyle>;
+    renderFlag?: (info: FlagRenderInfo) => React.ReactNode;
+}
+
+interface ExpoClipboard {
+    setStringAsync?: (text: string) => Promise<unknown>;
+}
+
+// --- Helpers ---
+
+// `expo-clipboard` is optional, like `expo-localization`; React Native core has no clipboard API
+const loadExpoClipboard = (): ExpoClipboard | undefined => {
+    try {
+        return require('expo-clipboard');
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const toTelUrl = (value: string, details: PhoneNumberDetails | undefined) =>
+    details?.rfc3966 ?? `tel:${value.replace(/[^0-9+]/g, '')}`;
+
+// Formatting, actions and accessibility props shared by both components
+const usePhoneNumberDisplay = ({
+    value,
+    format,
+    viewerCountry,
+    pressAction,
+    longPressAction,
+    onCopy,
+    locale,
+    theme: themeOverride,
+    colorScheme,
+    direction,
+    labels,
+}: PhoneNumberTextProps) => {
+    const theme = usePhoneInputTheme(themeOverride, colorScheme);
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const t = useMemo(() => getLabels(locale, labels), [locale, labels]);
+    const isRTL = (direction ?? (I18nManager.isRTL ? 'rtl' : 'ltr')) === 'rtl';
+
+    const details = useMemo(() => (value ? parsePhone(value) : undefined), [value]);
+    const viewer = useMemo(() => viewerCountry ?? getDeviceRegion(), [viewerCountry]);
+
+    // Unparseable values are shown as given
+    const text = useMemo(() => {
+        if (!details) return value;
+        return formatPhone(value, format ?? (details.iso2 === viewer ? 'NATIONAL' : 'INTERNATIONAL'));
+    }, [value, details, format, viewer]);
+
+    // Failures (no dialer, clipboard denied) are swallowed; there is nothing to show them in
+    const runAction = useCallback((action: PhoneNumberAction) => {
+        if (action === 'call') {
+            Promise.resolve()
+                .then(() => Linking.openURL(toTelUrl(value, details)))
+                .catch(() => { });
+            return;
+        }
+        const copy = onCopy ?? loadExpoClipboard()?.setStringAsync;
+        if (!copy) return;
+        const copied = details?.isValid && details.e164 ? details.e164 : value;
+        Promise.resolve()
+            .then(() => copy(copied))
+            .catch(() => { });
+    }, [value, details, onCopy]);
+
+    // The press action decides the role; a long-press-only number is still announced as a button
+    const primaryAction = pressAction ?? longPressAction;
+    const accessibilityRole: AccessibilityRole | undefined = primaryAction === 'call' ? 'link' : primaryAction ? 'button' : undefined;
+    const accessibilityHint = primaryAction === 'call' ? t.callActionHint : primaryAction ? t.copyActionHint : undefined;
+
+    return {
+        styles,
+        details,
+        text: isolateLTR(text, isRTL),
+        isRTL,
+        hasActions: !!primaryAction,
+        pressableProps: {
+            onPress: pressAction ? () => runAction(pressAction) : undefined,
+            onLongPress: longPressAction ? () => runAction(longPressAction) : undefined,
+            accessibilityRole,
+            accessibilityHint,
+            accessibilityLabel: text,
+        },
+    };
+};
+
+// --- Components ---
+
+// Read-only phone number, formatted for the viewer; optionally tap to call or copy
+export const PhoneNumberText = React.memo((props: PhoneNumberTextProps) => {
+    const { styles, text, hasActions, pressableProps } = usePhoneNumberDisplay(props);
+    const content = <Text style={[styles.text, props.style]}>{text}</Text>;
+
+    return hasActions ? <Pressable {...pressableProps}>{content}</Pressable> : content;
+});
+
+// `PhoneNumberText` with the number's flag in front
+export const PhoneNumberLabel = React.memo((props: PhoneNumberLabelProps) => {
+    const { containerStyle, flagContainerStyle, flagStyle, renderFlag, style, locale } = props;
+    const { styles, details, text, isRTL, hasActions, pressableProps } = usePhoneNumberDisplay(props);
+    const country = useMemo(() => (details ? getCountryByIso2(details.iso2, locale) : undefined), [details, locale]);
+
+    const content = (
+        <>
+            {country && (
+                <View style={[styles.flagContainer, flagContainerStyle]}>
+                    {renderFlag ? renderFlag({ country, variant: 'label' }) : (
+                        <Image
+                            source={flags[country.iso2]}
+                            style={[styles.flag, flagStyle]}
+                            resizeMode="cover"
+                            accessibilityLabel={country.name}
+                        />
+                    )}
+                </View>
+            )}
+            <Text style={[styles.text, style]}>{text}</Text>
+        </>
+    );
+    const rowStyle = [styles.row, isRTL ? styles.rtl : styles.ltr, containerStyle];
+
+    return hasActions
+        ? <Pressable style={rowStyle} {...pressableProps}>{content}</Pressable>
+        : <View style={rowStyle}>{content}</View>;
+});
+
+const createStyles = ({ colors, radii, spacing, typography }: PhoneInputTheme) => StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    ltr: {
+        direction: 'ltr',
+    },
+    rtl: {
+        direction: 'rtl',
+    },
+    text: {
+        fontSize: typography.itemSize,
+        fontFamily: typography.fontFamily,
+        color: colors.text,
+    },
+    flagContainer: {
+        width: 24,
+        height: 16,
+        borderRadius: radii.flag,
+        overflow: 'hidden',
+        marginEnd: spacing.sm,
+    },
+    flag: {
+        width: '100%',
+        height: '100%',
+    },
+});
@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    View,
+    Animated,
+    PanResponder,
+    Modal,
+    TouchableOpacity,
+    Keyboard,
+    Platform,
+    StatusBar,
+    StyleSheet,
+    StyleProp,
+    ViewStyle,
+    useWindowDimensions,
+} from 'react-native';
+import { PhoneInputTheme } from '../theme/theme';
+
+// --- Interfaces ---
+
+// Pass the values from `react-native-safe-area-context` (or similar) on notched devices
+export interface SheetInsets {
+    top?: number;
+    bottom?: number;
+}
+
+interface PickerSheetProps {
+    visible: boolean;
+    onClose: () => void;
+    // Fractions of the available height, e.g. [0.5, 0.9]; the sheet opens at the smallest
+    snapPoints: number[];
+    // Grows to the largest height available (e.g. while searching)
+    isExpanded: boolean;
+    insets?: SheetInsets;
+    theme: PhoneInputTheme;
+    backgroundColor: string;
+    closeLabel: string;
+    style?: StyleProp<ViewStyle>;
+    // Draggable area above the list (handle and search field)
+    header: React.ReactNode;
+    children: React.ReactNode;
+}
+
+// --- Helpers ---
+
+// Downward velocity (px/ms) that dismisses regardless of position
+const FLICK_VELOCITY = 1.5;
+// How far ahead a release is projected when picking the snap point
+const PROJECTION_MS = 200;
+
+// Height the sheet settles at after a drag: the nearest snap point, or 0 (dismiss) when dragged
+// below half of the lowest snap point or flicked down
+export const getSnapTarget = (height: number, velocity: number, snapHeights: number[]): number => {
+    const projected = height - velocity * PROJECTION_MS;
+    const lowest = Math.min(...snapHeights);
+    if (velocity > FLICK_VELOCITY || projected < lowest / 2) return 0;
+    return snapHeights.reduce((best, snap) => (Math.abs(snap - projected) < Math.abs(best - projected) ? snap : best));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// --- Component ---
+
+// Bottom sheet built on `Animated`/`PanResponder`; height (not translation) is animated so the list
+// inside always fits the visible area
+export const PickerSheet = ({
+    visible,
+    onClose,
+    snapPoints,
+    isExpanded,
+    insets,
+    theme,
+    backgroundColor,
+    closeLabel,
+    style,
+    header,
+    children,
+}: PickerSheetProps) => {
+    const styles = useMemo(() => createStyles(theme), [theme]);
+    const { height: windowHeight } = useWindowDimensions();
+    const [keyboardHeight, setKeyboardHeight] = useState(0);
+
+    const topInset = insets?.top ?? (StatusBar.currentHeight || 0);
+    const bottomInset = keyboardHeight > 0 ? 0 : insets?.bottom ?? 0;
+    const availableHeight = windowHeight - topInset - keyboardHeight;
+
+    const snapHeights = useMemo(
+        () => [...snapPoints].sort((a, b) => a - b).map(point => availableHeight * clamp(point, 0, 1)),
+        [snapPoints, availableHeight]
+    );
+    const maxHeight = snapHeights[snapHeights.length - 1] ?? availableHeight;
+
+    const height = useRef(new Animated.Value(0)).current;
+    const currentHeight = useRef(0);
+    const dragStartHeight = useRef(0);
+
+    const animateTo = useCallback((toValue: number, onEnd?: () => void) => {
+        currentHeight.current = toValue;
+        Animated.spring(height, { toValue, useNativeDriver: false, bounciness: 0 }).start(({ finished }) => {
+            if (finished) onEnd?.();
+        });
+    }, [height]);
+
+    const dismiss = useCallback(() => animateTo(0, onClose), [animateTo, onClose]);
+
+    // Open at the smallest snap point
+    useEffect(() => {
+        if (!visible) return;
+        height.setValue(0);
+        currentHeight.current = 0;
+        animateTo(snapHeights[0] ?? availableHeight);
+    }, [visible]); // Only on open; later size changes are handled below
+
+    // Expand while searching, and follow the keyboard / rotation while expanded
+    useEffect(() => {
+        if (visible && isExpanded) {
+            animateTo(availableHeight);
+        } else if (visible && currentHeight.current > maxHeight) {
+            animateTo(maxHeight);
+        }
+    }, [visible, isExpanded, availableHeight, maxHeight, animateTo]);
+
+    useEffect(() => {
+        if (!visible) return;
+        const showSub = Keyboard.addListener(
+            Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow',
+            e => setKeyboardHeight(e.endCoordinates.height)
+        );
+        const hideSub = Keyboard.addListener(
+            Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide',
+            () => setKeyboardHeight(0)
+        );
+        return () => {
+            showSub.remove();
+            hideSub.remove();
+        };
+    }, [visible]);
+
+    const panResponder = useMemo(() => PanResponder.create({
+        // Vertical drags only, so taps still reach the search field
+        onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dy) > 4 && Math.abs(gesture.dy) > Math.abs(gesture.dx),
+        onPanResponderGrant: () => {
+            height.stopAnimation(value => {
+                dragStartHeight.current = value;
+            });
+        },
+        onPanResponderMove: (_, gesture) => {
+            const next = clamp(dragStartHeight.current - gesture.dy, 0, availableHeight);
+            currentHeight.current = next;
+            height.setValue(next);
+        },
+        onPanResponderRelease: (_, gesture) => {
+            const target = getSnapTarget(currentHeight.current, gesture.vy, isExpanded ? [...snapHeights, availableHeight] : snapHeights);
+            if (target === 0) {
+                dismiss();
+            } else {
+                animateTo(target);
+            }
+        },
+    }), [height, availableHeight, snapHeights, isExpanded, dismiss, animateTo]);
+
+    return (
+        <Modal visible={visible} transparent animationType="none" onRequestClose={dismiss}>
+            <TouchableOpacity
+                style={styles.backdrop}
+                activeOpacity={1}
+                onPress={dismiss}
+                accessibilityRole="button"
+                accessibilityLabel={closeLabel}
+            />
+
+            {/* Wrapped so the backdrop (close button) stays reachable for screen readers */}
+            <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+                <Animated.View
+                    style={[
+                        styles.sheet,
+                        style,
+                        { height, bottom: keyboardHeight, paddingBottom: bottomInset, backgroundColor },
+                    ]}
+                    accessibilityViewIsModal
+                >
+                    <View {...panResponder.panHandlers}>
+                        <View style={styles.handleArea}>
+                            <View style={styles.handle} />
+                        </View>
+                        {header}
+                    </View>
+                    {children}
+                </Animated.View>
+            </View>
+        </Modal>
+    );
+};
+
+const createStyles = ({ colors, radii, spacing }: PhoneInputTheme) => StyleSheet.create({
+    backdrop: {
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: colors.backdrop,
+    },
+    sheet: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        borderTopLeftRadius: radii.sheet,
+        borderTopRightRadius: radii.sheet,
+        overflow: 'hidden',
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 12,
+        elevation: 10,
+    },
+    handleArea: {
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+    },
+    handle: {
+        width: 36,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: colors.divider,
+    },
+});
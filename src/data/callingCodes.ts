@@ -0,0 +1,41 @@
+import metadata from 'libphonenumber-js/max/metadata';
+import { Metadata } from 'libphonenumber-js/core';
+import { isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+
+// `Metadata` comes from the core entry point: the CommonJS build of `/max` does not export it
+const numberingPlans = new Metadata(metadata);
+
+const leadingDigitsCache: Partial<Record<string, RegExp | null>> = {};
+
+// Territories sharing a calling code, main one first (e.g. '44' -> GB, GG, IM, JE)
+export const getTerritories = (callingCode: string): string[] =>
+    metadata.country_calling_codes[callingCode] || [];
+
+export const getMainTerritory = (callingCode: string): string | undefined =>
+    getTerritories(callingCode)[0];
+
+// Area codes / leading digits that identify a non-main territory (e.g. JM: 658|876, KZ: 33622|7)
+export const getLeadingDigits = (iso2: string): RegExp | undefined => {
+    if (!(iso2 in leadingDigitsCache)) {
+        let pattern: string | undefined;
+        if (isSupportedCountry(iso2)) {
+            numberingPlans.selectNumberingPlan(iso2);
+            pattern = numberingPlans.numberingPlan?.leadingDigits();
+        }
+        leadingDigitsCache[iso2] = pattern ? new RegExp(`^(?:${pattern})`) : null;
+    }
+    return leadingDigitsCache[iso2] || undefined;
+};
+
+// Territory a (possibly incomplete) national number belongs to, or undefined while still ambiguous.
+// Complete numbers are decided by validation (Canadian area codes have no leading-digit pattern),
+// partial ones by leading digits.
+export const findTerritory = (callingCode: string, nationalDigits: string): string | undefined => {
+    const territories = getTerritories(callingCode);
+    if (territories.length <= 1) return territories[0];
+
+    const number = parsePhoneNumberFromString(`+${callingCode}${nationalDigits}`);
+    if (number && number.country && number.isValid()) return number.country;
+
+    return territories.find(iso2 => getLeadingDigits(iso2)?.test(nationalDigits));
+};
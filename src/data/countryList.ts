@@ -1,255 +1,10 @@
-import { ImageSourcePropType } from 'react-native';
-
 export interface Country {
     iso2: string;
     name: string;
     callingCode: string;
+    aliases?: string[]; // Alternate and former names used by search
 }
 
-export const flags: Record<string, ImageSourcePropType> = {
-    AF: require('./flags/af.jpg'),
-    AL: require('./flags/al.jpg'),
-    DZ: require('./flags/dz.jpg'),
-    AS: require('./flags/as.jpg'),
-    AD: require('./flags/ad.jpg'),
-    AO: require('./flags/ao.jpg'),
-    AI: require('./flags/ai.jpg'),
-    AG: require('./flags/ag.jpg'),
-    AR: require('./flags/ar.jpg'),
-    AM: require('./flags/am.jpg'),
-    AW: require('./flags/aw.jpg'),
-    AU: require('./flags/au.jpg'),
-    AT: require('./flags/at.jpg'),
-    AZ: require('./flags/az.jpg'),
-    BS: require('./flags/bs.jpg'),
-    BH: require('./flags/bh.jpg'),
-    BD: require('./flags/bd.jpg'),
-    BB: require('./flags/bb.jpg'),
-    BY: require('./flags/by.jpg'),
-    BE: require('./flags/be.jpg'),
-    BZ: require('./flags/bz.jpg'),
-    BJ: require('./flags/bj.jpg'),
-    BM: require('./flags/bm.jpg'),
-    BT: require('./flags/bt.jpg'),
-    BO: require('./flags/bo.jpg'),
-    BA: require('./flags/ba.jpg'),
-    BW: require('./flags/bw.jpg'),
-    BR: require('./flags/br.jpg'),
-    IO: require('./flags/io.jpg'),
-    VG: require('./flags/vg.jpg'),
-    BN: require('./flags/bn.jpg'),
-    BG: require('./flags/bg.jpg'),
-    BF: require('./flags/bf.jpg'),
-    BI: require('./flags/bi.jpg'),
-    KH: require('./flags/kh.jpg'),
-    CM: require('./flags/cm.jpg'),
-    CA: require('./flags/ca.jpg'),
-    CV: require('./flags/cv.jpg'),
-    BQ: require('./flags/bq.jpg'),
-    KY: require('./flags/ky.jpg'),
-    CF: require('./flags/cf.jpg'),
-    TD: require('./flags/td.jpg'),
-    CL: require('./flags/cl.jpg'),
-    CN: require('./flags/cn.jpg'),
-    CX: require('./flags/cx.jpg'),
-    CC: require('./flags/cc.jpg'),
-    CO: require('./flags/co.jpg'),
-    KM: require('./flags/km.jpg'),
-    CK: require('./flags/ck.jpg'),
-    CR: require('./flags/cr.jpg'),
-    HR: require('./flags/hr.jpg'),
-    CU: require('./flags/cu.jpg'),
-    CW: require('./flags/cw.jpg'),
-    CY: require('./flags/cy.jpg'),
-    CZ: require('./flags/cz.jpg'),
-    CD: require('./flags/cd.jpg'),
-    DK: require('./flags/dk.jpg'),
-    DJ: require('./flags/dj.jpg'),
-    DM: require('./flags/dm.jpg'),
-    DO: require('./flags/do.jpg'),
-    TL: require('./flags/tl.jpg'),
-    EC: require('./flags/ec.jpg'),
-    EG: require('./flags/eg.jpg'),
-    SV: require('./flags/sv.jpg'),
-    GQ: require('./flags/gq.jpg'),
-    ER: require('./flags/er.jpg'),
-    EE: require('./flags/ee.jpg'),
-    SZ: require('./flags/sz.jpg'),
-    ET: require('./flags/et.jpg'),
-    FK: require('./flags/fk.jpg'),
-    FO: require('./flags/fo.jpg'),
-    FJ: require('./flags/fj.jpg'),
-    FI: require('./flags/fi.jpg'),
-    FR: require('./flags/fr.jpg'),
-    GF: require('./flags/gf.jpg'),
-    PF: require('./flags/pf.jpg'),
-    GA: require('./flags/ga.jpg'),
-    GM: require('./flags/gm.jpg'),
-    GE: require('./flags/ge.jpg'),
-    DE: require('./flags/de.jpg'),
-    GH: require('./flags/gh.jpg'),
-    GI: require('./flags/gi.jpg'),
-    GR: require('./flags/gr.jpg'),
-    GL: require('./flags/gl.jpg'),
-    GD: require('./flags/gd.jpg'),
-    GP: require('./flags/gp.jpg'),
-    GU: require('./flags/gu.jpg'),
-    GT: require('./flags/gt.jpg'),
-    GG: require('./flags/gg.jpg'),
-    GN: require('./flags/gn.jpg'),
-    GW: require('./flags/gw.jpg'),
-    GY: require('./flags/gy.jpg'),
-    HT: require('./flags/ht.jpg'),
-    HN: require('./flags/hn.jpg'),
-    HK: require('./flags/hk.jpg'),
-    HU: require('./flags/hu.jpg'),
-    IS: require('./flags/is.jpg'),
-    IN: require('./flags/in.jpg'),
-    ID: require('./flags/id.jpg'),
-    IR: require('./flags/ir.jpg'),
-    IQ: require('./flags/iq.jpg'),
-    IE: require('./flags/ie.jpg'),
-    IM: require('./flags/im.jpg'),
-    IL: require('./flags/il.jpg'),
-    IT: require('./flags/it.jpg'),
-    CI: require('./flags/ci.jpg'),
-    JM: require('./flags/jm.jpg'),
-    JP: require('./flags/jp.jpg'),
-    JE: require('./flags/je.jpg'),
-    JO: require('./flags/jo.jpg'),
-    KZ: require('./flags/kz.jpg'),
-    KE: require('./flags/ke.jpg'),
-    KI: require('./flags/ki.jpg'),
-    XK: require('./flags/xk.jpg'),
-    KW: require('./flags/kw.jpg'),
-    KG: require('./flags/kg.jpg'),
-    LA: require('./flags/la.jpg'),
-    LV: require('./flags/lv.jpg'),
-    LB: require('./flags/lb.jpg'),
-    LS: require('./flags/ls.jpg'),
-    LR: require('./flags/lr.jpg'),
-    LY: require('./flags/ly.jpg'),
-    LI: require('./flags/li.jpg'),
-    LT: require('./flags/lt.jpg'),
-    LU: require('./flags/lu.jpg'),
-    MO: require('./flags/mo.jpg'),
-    MG: require('./flags/mg.jpg'),
-    MW: require('./flags/mw.jpg'),
-    MY: require('./flags/my.jpg'),
-    MV: require('./flags/mv.jpg'),
-    ML: require('./flags/ml.jpg'),
-    MT: require('./flags/mt.jpg'),
-    MH: require('./flags/mh.jpg'),
-    MQ: require('./flags/mq.jpg'),
-    MR: require('./flags/mr.jpg'),
-    MU: require('./flags/mu.jpg'),
-    YT: require('./flags/yt.jpg'),
-    MX: require('./flags/mx.jpg'),
-    FM: require('./flags/fm.jpg'),
-    MD: require('./flags/md.jpg'),
-    MC: require('./flags/mc.jpg'),
-    MN: require('./flags/mn.jpg'),
-    ME: require('./flags/me.jpg'),
-    MS: require('./flags/ms.jpg'),
-    MA: require('./flags/ma.jpg'),
-    MZ: require('./flags/mz.jpg'),
-    MM: require('./flags/mm.jpg'),
-    NA: require('./flags/na.jpg'),
-    NR: require('./flags/nr.jpg'),
-    NP: require('./flags/np.jpg'),
-    NL: require('./flags/nl.jpg'),
-    NC: require('./flags/nc.jpg'),
-    NZ: require('./flags/nz.jpg'),
-    NI: require('./flags/ni.jpg'),
-    NE: require('./flags/ne.jpg'),
-    NG: require('./flags/ng.jpg'),
-    NU: require('./flags/nu.jpg'),
-    NF: require('./flags/nf.jpg'),
-    KP: require('./flags/kp.jpg'),
-    MK: require('./flags/mk.jpg'),
-    MP: require('./flags/mp.jpg'),
-    NO: require('./flags/no.jpg'),
-    OM: require('./flags/om.jpg'),
-    PK: require('./flags/pk.jpg'),
-    PW: require('./flags/pw.jpg'),
-    PS: require('./flags/ps.jpg'),
-    PA: require('./flags/pa.jpg'),
-    PG: require('./flags/pg.jpg'),
-    PY: require('./flags/py.jpg'),
-    PE: require('./flags/pe.jpg'),
-    PH: require('./flags/ph.jpg'),
-    PL: require('./flags/pl.jpg'),
-    PT: require('./flags/pt.jpg'),
-    PR: require('./flags/pr.jpg'),
-    QA: require('./flags/qa.jpg'),
-    RE: require('./flags/re.jpg'),
-    RO: require('./flags/ro.jpg'),
-    RU: require('./flags/ru.jpg'),
-    RW: require('./flags/rw.jpg'),
-    BL: require('./flags/bl.jpg'),
-    SH: require('./flags/sh.jpg'),
-    KN: require('./flags/kn.jpg'),
-    LC: require('./flags/lc.jpg'),
-    MF: require('./flags/mf.jpg'),
-    PM: require('./flags/pm.jpg'),
-    VC: require('./flags/vc.jpg'),
-    WS: require('./flags/ws.jpg'),
-    SM: require('./flags/sm.jpg'),
-    ST: require('./flags/st.jpg'),
-    SA: require('./flags/sa.jpg'),
-    SN: require('./flags/sn.jpg'),
-    RS: require('./flags/rs.jpg'),
-    SC: require('./flags/sc.jpg'),
-    SL: require('./flags/sl.jpg'),
-    SG: require('./flags/sg.jpg'),
-    SX: require('./flags/sx.jpg'),
-    SK: require('./flags/sk.jpg'),
-    SI: require('./flags/si.jpg'),
-    SB: require('./flags/sb.jpg'),
-    SO: require('./flags/so.jpg'),
-    ZA: require('./flags/za.jpg'),
-    KR: require('./flags/kr.jpg'),
-    SS: require('./flags/ss.jpg'),
-    ES: require('./flags/es.jpg'),
-    LK: require('./flags/lk.jpg'),
-    SD: require('./flags/sd.jpg'),
-    SR: require('./flags/sr.jpg'),
-    SJ: require('./flags/sj.jpg'),
-    SE: require('./flags/se.jpg'),
-    CH: require('./flags/ch.jpg'),
-    SY: require('./flags/sy.jpg'),
-    TW: require('./flags/tw.jpg'),
-    TJ: require('./flags/tj.jpg'),
-    TZ: require('./flags/tz.jpg'),
-    TH: require('./flags/th.jpg'),
-    TG: require('./flags/tg.jpg'),
-    TK: require('./flags/tk.jpg'),
-    TO: require('./flags/to.jpg'),
-    TT: require('./flags/tt.jpg'),
-    TN: require('./flags/tn.jpg'),
-    TR: require('./flags/tr.jpg'),
-    TM: require('./flags/tm.jpg'),
-    TC: require('./flags/tc.jpg'),
-    TV: require('./flags/tv.jpg'),
-    VI: require('./flags/vi.jpg'),
-    UG: require('./flags/ug.jpg'),
-    UA: require('./flags/ua.jpg'),
-    AE: require('./flags/ae.jpg'),
-    GB: require('./flags/gb.jpg'),
-    US: require('./flags/us.jpg'),
-    UY: require('./flags/uy.jpg'),
-    UZ: require('./flags/uz.jpg'),
-    VU: require('./flags/vu.jpg'),
-    VA: require('./flags/va.jpg'),
-    VE: require('./flags/ve.jpg'),
-    VN: require('./flags/vn.jpg'),
-    WF: require('./flags/wf.jpg'),
-    EH: require('./flags/eh.jpg'),
-    YE: require('./flags/ye.jpg'),
-    ZM: require('./flags/zm.jpg'),
-    ZW: require('./flags/zw.jpg')
-};
-
 export const countryList: Country[] = [
     { iso2: 'AF', name: 'Afghanistan', callingCode: '93' },
     { iso2: 'AL', name: 'Albania', callingCode: '355' },
@@ -276,11 +31,11 @@ export const countryList: Country[] = [
     { iso2: 'BM', name: 'Bermuda', callingCode: '1' },
     { iso2: 'BT', name: 'Bhutan', callingCode: '975' },
     { iso2: 'BO', name: 'Bolivia', callingCode: '591' },
-    { iso2: 'BA', name: 'Bosnia and Herzegovina', callingCode: '387' },
+    { iso2: 'BA', name: 'Bosnia and Herzegovina', callingCode: '387', aliases: ['Bosnia'] },
     { iso2: 'BW', name: 'Botswana', callingCode: '267' },
     { iso2: 'BR', name: 'Brazil', callingCode: '55' },
     { iso2: 'IO', name: 'British Indian Ocean Territory', callingCode: '246' },
-    { iso2: 'VG', name: 'British Virgin Islands', callingCode: '1' },
+    { iso2: 'VG', name: 'British Virgin Islands', callingCode: '1', aliases: ['BVI'] },
     { iso2: 'BN', name: 'Brunei', callingCode: '673' },
     { iso2: 'BG', name: 'Bulgaria', callingCode: '359' },
     { iso2: 'BF', name: 'Burkina Faso', callingCode: '226' },
@@ -288,7 +43,7 @@ export const countryList: Country[] = [
     { iso2: 'KH', name: 'Cambodia', callingCode: '855' },
     { iso2: 'CM', name: 'Cameroon', callingCode: '237' },
     { iso2: 'CA', name: 'Canada', callingCode: '1' },
-    { iso2: 'CV', name: 'Cape Verde', callingCode: '238' },
+    { iso2: 'CV', name: 'Cape Verde', callingCode: '238', aliases: ['Cabo Verde'] },
     { iso2: 'BQ', name: 'Caribbean Netherlands', callingCode: '599' },
     { iso2: 'KY', name: 'Cayman Islands', callingCode: '1' },
     { iso2: 'CF', name: 'Central African Republic', callingCode: '236' },
@@ -305,22 +60,22 @@ export const countryList: Country[] = [
     { iso2: 'CU', name: 'Cuba', callingCode: '53' },
     { iso2: 'CW', name: 'Curaçao', callingCode: '599' },
     { iso2: 'CY', name: 'Cyprus', callingCode: '357' },
-    { iso2: 'CZ', name: 'Czech Republic', callingCode: '420' },
-    { iso2: 'CD', name: 'DR Congo', callingCode: '243' },
+    { iso2: 'CZ', name: 'Czech Republic', callingCode: '420', aliases: ['Czechia'] },
+    { iso2: 'CD', name: 'DR Congo', callingCode: '243', aliases: ['Democratic Republic of the Congo', 'DRC', 'Congo-Kinshasa'] },
     { iso2: 'DK', name: 'Denmark', callingCode: '45' },
     { iso2: 'DJ', name: 'Djibouti', callingCode: '253' },
     { iso2: 'DM', name: 'Dominica', callingCode: '1' },
     { iso2: 'DO', name: 'Dominican Republic', callingCode: '1' },
-    { iso2: 'TL', name: 'East Timor', callingCode: '670' },
+    { iso2: 'TL', name: 'East Timor', callingCode: '670', aliases: ['Timor-Leste'] },
     { iso2: 'EC', name: 'Ecuador', callingCode: '593' },
     { iso2: 'EG', name: 'Egypt', callingCode: '20' },
     { iso2: 'SV', name: 'El Salvador', callingCode: '503' },
     { iso2: 'GQ', name: 'Equatorial Guinea', callingCode: '240' },
     { iso2: 'ER', name: 'Eritrea', callingCode: '291' },
     { iso2: 'EE', name: 'Estonia', callingCode: '372' },
-    { iso2: 'SZ', name: 'Eswatini', callingCode: '268' },
+    { iso2: 'SZ', name: 'Eswatini', callingCode: '268', aliases: ['Swaziland'] },
     { iso2: 'ET', name: 'Ethiopia', callingCode: '251' },
-    { iso2: 'FK', name: 'Falkland Islands', callingCode: '500' },
+    { iso2: 'FK', name: 'Falkland Islands', callingCode: '500', aliases: ['Malvinas'] },
     { iso2: 'FO', name: 'Faroe Islands', callingCode: '298' },
     { iso2: 'FJ', name: 'Fiji', callingCode: '679' },
     { iso2: 'FI', name: 'Finland', callingCode: '358' },
@@ -330,7 +85,7 @@ export const countryList: Country[] = [
     { iso2: 'GA', name: 'Gabon', callingCode: '241' },
     { iso2: 'GM', name: 'Gambia', callingCode: '220' },
     { iso2: 'GE', name: 'Georgia', callingCode: '995' },
-    { iso2: 'DE', name: 'Germany', callingCode: '49' },
+    { iso2: 'DE', name: 'Germany', callingCode: '49', aliases: ['Deutschland'] },
     { iso2: 'GH', name: 'Ghana', callingCode: '233' },
     { iso2: 'GI', name: 'Gibraltar', callingCode: '350' },
     { iso2: 'GR', name: 'Greece', callingCode: '30' },
@@ -350,13 +105,13 @@ export const countryList: Country[] = [
     { iso2: 'IS', name: 'Iceland', callingCode: '354' },
     { iso2: 'IN', name: 'India', callingCode: '91' },
     { iso2: 'ID', name: 'Indonesia', callingCode: '62' },
-    { iso2: 'IR', name: 'Iran', callingCode: '98' },
+    { iso2: 'IR', name: 'Iran', callingCode: '98', aliases: ['Persia'] },
     { iso2: 'IQ', name: 'Iraq', callingCode: '964' },
     { iso2: 'IE', name: 'Ireland', callingCode: '353' },
     { iso2: 'IM', name: 'Isle of Man', callingCode: '44' },
     { iso2: 'IL', name: 'Israel', callingCode: '972' },
     { iso2: 'IT', name: 'Italy', callingCode: '39' },
-    { iso2: 'CI', name: 'Ivory Coast', callingCode: '225' },
+    { iso2: 'CI', name: 'Ivory Coast', callingCode: '225', aliases: ['Côte d\'Ivoire'] },
     { iso2: 'JM', name: 'Jamaica', callingCode: '1' },
     { iso2: 'JP', name: 'Japan', callingCode: '81' },
     { iso2: 'JE', name: 'Jersey', callingCode: '44' },
@@ -367,7 +122,7 @@ export const countryList: Country[] = [
     { iso2: 'XK', name: 'Kosovo', callingCode: '383' },
     { iso2: 'KW', name: 'Kuwait', callingCode: '965' },
     { iso2: 'KG', name: 'Kyrgyzstan', callingCode: '996' },
-    { iso2: 'LA', name: 'Laos', callingCode: '856' },
+    { iso2: 'LA', name: 'Laos', callingCode: '856', aliases: ['Lao PDR'] },
     { iso2: 'LV', name: 'Latvia', callingCode: '371' },
     { iso2: 'LB', name: 'Lebanon', callingCode: '961' },
     { iso2: 'LS', name: 'Lesotho', callingCode: '266' },
@@ -376,7 +131,7 @@ export const countryList: Country[] = [
     { iso2: 'LI', name: 'Liechtenstein', callingCode: '423' },
     { iso2: 'LT', name: 'Lithuania', callingCode: '370' },
     { iso2: 'LU', name: 'Luxembourg', callingCode: '352' },
-    { iso2: 'MO', name: 'Macau', callingCode: '853' },
+    { iso2: 'MO', name: 'Macau', callingCode: '853', aliases: ['Macao'] },
     { iso2: 'MG', name: 'Madagascar', callingCode: '261' },
     { iso2: 'MW', name: 'Malawi', callingCode: '265' },
     { iso2: 'MY', name: 'Malaysia', callingCode: '60' },
@@ -389,7 +144,7 @@ export const countryList: Country[] = [
     { iso2: 'MU', name: 'Mauritius', callingCode: '230' },
     { iso2: 'YT', name: 'Mayotte', callingCode: '262' },
     { iso2: 'MX', name: 'Mexico', callingCode: '52' },
-    { iso2: 'FM', name: 'Micronesia', callingCode: '691' },
+    { iso2: 'FM', name: 'Micronesia', callingCode: '691', aliases: ['Federated States of Micronesia'] },
     { iso2: 'MD', name: 'Moldova', callingCode: '373' },
     { iso2: 'MC', name: 'Monaco', callingCode: '377' },
     { iso2: 'MN', name: 'Mongolia', callingCode: '976' },
@@ -397,11 +152,11 @@ export const countryList: Country[] = [
     { iso2: 'MS', name: 'Montserrat', callingCode: '1' },
     { iso2: 'MA', name: 'Morocco', callingCode: '212' },
     { iso2: 'MZ', name: 'Mozambique', callingCode: '258' },
-    { iso2: 'MM', name: 'Myanmar', callingCode: '95' },
+    { iso2: 'MM', name: 'Myanmar', callingCode: '95', aliases: ['Burma'] },
     { iso2: 'NA', name: 'Namibia', callingCode: '264' },
     { iso2: 'NR', name: 'Nauru', callingCode: '674' },
     { iso2: 'NP', name: 'Nepal', callingCode: '977' },
-    { iso2: 'NL', name: 'Netherlands', callingCode: '31' },
+    { iso2: 'NL', name: 'Netherlands', callingCode: '31', aliases: ['Holland'] },
     { iso2: 'NC', name: 'New Caledonia', callingCode: '687' },
     { iso2: 'NZ', name: 'New Zealand', callingCode: '64' },
     { iso2: 'NI', name: 'Nicaragua', callingCode: '505' },
@@ -409,14 +164,14 @@ export const countryList: Country[] = [
     { iso2: 'NG', name: 'Nigeria', callingCode: '234' },
     { iso2: 'NU', name: 'Niue', callingCode: '683' },
     { iso2: 'NF', name: 'Norfolk Island', callingCode: '672' },
-    { iso2: 'KP', name: 'North Korea', callingCode: '850' },
-    { iso2: 'MK', name: 'North Macedonia', callingCode: '389' },
+    { iso2: 'KP', name: 'North Korea', callingCode: '850', aliases: ['DPRK'] },
+    { iso2: 'MK', name: 'North Macedonia', callingCode: '389', aliases: ['Macedonia'] },
     { iso2: 'MP', name: 'Northern Mariana Islands', callingCode: '1' },
     { iso2: 'NO', name: 'Norway', callingCode: '47' },
     { iso2: 'OM', name: 'Oman', callingCode: '968' },
     { iso2: 'PK', name: 'Pakistan', callingCode: '92' },
     { iso2: 'PW', name: 'Palau', callingCode: '680' },
-    { iso2: 'PS', name: 'Palestine', callingCode: '970' },
+    { iso2: 'PS', name: 'Palestine', callingCode: '970', aliases: ['Palestinian Territories'] },
     { iso2: 'PA', name: 'Panama', callingCode: '507' },
     { iso2: 'PG', name: 'Papua New Guinea', callingCode: '675' },
     { iso2: 'PY', name: 'Paraguay', callingCode: '595' },
@@ -428,15 +183,15 @@ export const countryList: Country[] = [
     { iso2: 'QA', name: 'Qatar', callingCode: '974' },
     { iso2: 'RE', name: 'Réunion', callingCode: '262' },
     { iso2: 'RO', name: 'Romania', callingCode: '40' },
-    { iso2: 'RU', name: 'Russia', callingCode: '7' },
+    { iso2: 'RU', name: 'Russia', callingCode: '7', aliases: ['Russian Federation'] },
     { iso2: 'RW', name: 'Rwanda', callingCode: '250' },
-    { iso2: 'BL', name: 'Saint Barthélemy', callingCode: '590' },
+    { iso2: 'BL', name: 'Saint Barthélemy', callingCode: '590', aliases: ['St Barts', 'St Barthelemy'] },
     { iso2: 'SH', name: 'Saint Helena', callingCode: '290' },
-    { iso2: 'KN', name: 'Saint Kitts and Nevis', callingCode: '1' },
-    { iso2: 'LC', name: 'Saint Lucia', callingCode: '1' },
-    { iso2: 'MF', name: 'Saint Martin', callingCode: '590' },
-    { iso2: 'PM', name: 'Saint Pierre and Miquelon', callingCode: '508' },
-    { iso2: 'VC', name: 'Saint Vincent and the Grenadines', callingCode: '1' },
+    { iso2: 'KN', name: 'Saint Kitts and Nevis', callingCode: '1', aliases: ['St Kitts and Nevis'] },
+    { iso2: 'LC', name: 'Saint Lucia', callingCode: '1', aliases: ['St Lucia'] },
+    { iso2: 'MF', name: 'Saint Martin', callingCode: '590', aliases: ['St Martin'] },
+    { iso2: 'PM', name: 'Saint Pierre and Miquelon', callingCode: '508', aliases: ['St Pierre and Miquelon'] },
+    { iso2: 'VC', name: 'Saint Vincent and the Grenadines', callingCode: '1', aliases: ['St Vincent'] },
     { iso2: 'WS', name: 'Samoa', callingCode: '685' },
     { iso2: 'SM', name: 'San Marino', callingCode: '378' },
     { iso2: 'ST', name: 'São Tomé and Príncipe', callingCode: '239' },
@@ -452,7 +207,7 @@ export const countryList: Country[] = [
     { iso2: 'SB', name: 'Solomon Islands', callingCode: '677' },
     { iso2: 'SO', name: 'Somalia', callingCode: '252' },
     { iso2: 'ZA', name: 'South Africa', callingCode: '27' },
-    { iso2: 'KR', name: 'South Korea', callingCode: '82' },
+    { iso2: 'KR', name: 'South Korea', callingCode: '82', aliases: ['Korea', 'Republic of Korea'] },
     { iso2: 'SS', name: 'South Sudan', callingCode: '211' },
     { iso2: 'ES', name: 'Spain', callingCode: '34' },
     { iso2: 'LK', name: 'Sri Lanka', callingCode: '94' },
@@ -460,8 +215,8 @@ export const countryList: Country[] = [
     { iso2: 'SR', name: 'Suriname', callingCode: '597' },
     { iso2: 'SJ', name: 'Svalbard and Jan Mayen', callingCode: '47' },
     { iso2: 'SE', name: 'Sweden', callingCode: '46' },
-    { iso2: 'CH', name: 'Switzerland', callingCode: '41' },
-    { iso2: 'SY', name: 'Syria', callingCode: '963' },
+    { iso2: 'CH', name: 'Switzerland', callingCode: '41', aliases: ['Swiss Confederation'] },
+    { iso2: 'SY', name: 'Syria', callingCode: '963', aliases: ['Syrian Arab Republic'] },
     { iso2: 'TW', name: 'Taiwan', callingCode: '886' },
     { iso2: 'TJ', name: 'Tajikistan', callingCode: '992' },
     { iso2: 'TZ', name: 'Tanzania', callingCode: '255' },
@@ -471,22 +226,22 @@ export const countryList: Country[] = [
     { iso2: 'TO', name: 'Tonga', callingCode: '676' },
     { iso2: 'TT', name: 'Trinidad and Tobago', callingCode: '1' },
     { iso2: 'TN', name: 'Tunisia', callingCode: '216' },
-    { iso2: 'TR', name: 'Turkey', callingCode: '90' },
+    { iso2: 'TR', name: 'Turkey', callingCode: '90', aliases: ['Türkiye'] },
     { iso2: 'TM', name: 'Turkmenistan', callingCode: '993' },
     { iso2: 'TC', name: 'Turks and Caicos Islands', callingCode: '1' },
     { iso2: 'TV', name: 'Tuvalu', callingCode: '688' },
-    { iso2: 'VI', name: 'U.S. Virgin Islands', callingCode: '1' },
+    { iso2: 'VI', name: 'U.S. Virgin Islands', callingCode: '1', aliases: ['USVI'] },
     { iso2: 'UG', name: 'Uganda', callingCode: '256' },
     { iso2: 'UA', name: 'Ukraine', callingCode: '380' },
-    { iso2: 'AE', name: 'United Arab Emirates', callingCode: '971' },
-    { iso2: 'GB', name: 'United Kingdom', callingCode: '44' },
-    { iso2: 'US', name: 'United States', callingCode: '1' },
+    { iso2: 'AE', name: 'United Arab Emirates', callingCode: '971', aliases: ['UAE', 'Emirates'] },
+    { iso2: 'GB', name: 'United Kingdom', callingCode: '44', aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'] },
+    { iso2: 'US', name: 'United States', callingCode: '1', aliases: ['USA', 'United States of America', 'America'] },
     { iso2: 'UY', name: 'Uruguay', callingCode: '598' },
     { iso2: 'UZ', name: 'Uzbekistan', callingCode: '998' },
     { iso2: 'VU', name: 'Vanuatu', callingCode: '678' },
-    { iso2: 'VA', name: 'Vatican City', callingCode: '39' },
+    { iso2: 'VA', name: 'Vatican City', callingCode: '39', aliases: ['Holy See'] },
     { iso2: 'VE', name: 'Venezuela', callingCode: '58' },
-    { iso2: 'VN', name: 'Vietnam', callingCode: '84' },
+    { iso2: 'VN', name: 'Vietnam', callingCode: '84', aliases: ['Viet Nam'] },
     { iso2: 'WF', name: 'Wallis and Futuna', callingCode: '681' },
     { iso2: 'EH', name: 'Western Sahara', callingCode: '212' },
     { iso2: 'YE', name: 'Yemen', callingCode: '967' },
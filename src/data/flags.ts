@@ -0,0 +1,246 @@
+import { ImageSourcePropType } from 'react-native';
+
+// Kept apart from `countryList` so the country data stays importable outside React Native (e.g. `phoneUtils` on a server)
+export const flags: Record<string, ImageSourcePropType> = {
+    AF: require('./flags/af.jpg'),
+    AL: require('./flags/al.jpg'),
+    DZ: require('./flags/dz.jpg'),
+    AS: require('./flags/as.jpg'),
+    AD: require('./flags/ad.jpg'),
+    AO: require('./flags/ao.jpg'),
+    AI: require('./flags/ai.jpg'),
+    AG: require('./flags/ag.jpg'),
+    AR: require('./flags/ar.jpg'),
+    AM: require('./flags/am.jpg'),
+    AW: require('./flags/aw.jpg'),
+    AU: require('./flags/au.jpg'),
+    AT: require('./flags/at.jpg'),
+    AZ: require('./flags/az.jpg'),
+    BS: require('./flags/bs.jpg'),
+    BH: require('./flags/bh.jpg'),
+    BD: require('./flags/bd.jpg'),
+    BB: require('./flags/bb.jpg'),
+    BY: require('./flags/by.jpg'),
+    BE: require('./flags/be.jpg'),
+    BZ: require('./flags/bz.jpg'),
+    BJ: require('./flags/bj.jpg'),
+    BM: require('./flags/bm.jpg'),
+    BT: require('./flags/bt.jpg'),
+    BO: require('./flags/bo.jpg'),
+    BA: require('./flags/ba.jpg'),
+    BW: require('./flags/bw.jpg'),
+    BR: require('./flags/br.jpg'),
+    IO: require('./flags/io.jpg'),
+    VG: require('./flags/vg.jpg'),
+    BN: require('./flags/bn.jpg'),
+    BG: require('./flags/bg.jpg'),
+    BF: require('./flags/bf.jpg'),
+    BI: require('./flags/bi.jpg'),
+    KH: require('./flags/kh.jpg'),
+    CM: require('./flags/cm.jpg'),
+    CA: require('./flags/ca.jpg'),
+    CV: require('./flags/cv.jpg'),
+    BQ: require('./flags/bq.jpg'),
+    KY: require('./flags/ky.jpg'),
+    CF: require('./flags/cf.jpg'),
+    TD: require('./flags/td.jpg'),
+    CL: require('./flags/cl.jpg'),
+    CN: require('./flags/cn.jpg'),
+    CX: require('./flags/cx.jpg'),
+    CC: require('./flags/cc.jpg'),
+    CO: require('./flags/co.jpg'),
+    KM: require('./flags/km.jpg'),
+    CK: require('./flags/ck.jpg'),
+    CR: require('./flags/cr.jpg'),
+    HR: require('./flags/hr.jpg'),
+    CU: require('./flags/cu.jpg'),
+    CW: require('./flags/cw.jpg'),
+    CY: require('./flags/cy.jpg'),
+    CZ: require('./flags/cz.jpg'),
+    CD: require('./flags/cd.jpg'),
+    DK: require('./flags/dk.jpg'),
+    DJ: require('./flags/dj.jpg'),
+    DM: require('./flags/dm.jpg'),
+    DO: require('./flags/do.jpg'),
+    TL: require('./flags/tl.jpg'),
+    EC: require('./flags/ec.jpg'),
+    EG: require('./flags/eg.jpg'),
+    SV: require('./flags/sv.jpg'),
+    GQ: require('./flags/gq.jpg'),
+    ER: require('./flags/er.jpg'),
+    EE: require('./flags/ee.jpg'),
+    SZ: require('./flags/sz.jpg'),
+    ET: require('./flags/et.jpg'),
+    FK: require('./flags/fk.jpg'),
+    FO: require('./flags/fo.jpg'),
+    FJ: require('./flags/fj.jpg'),
+    FI: require('./flags/fi.jpg'),
+    FR: require('./flags/fr.jpg'),
+    GF: require('./flags/gf.jpg'),
+    PF: require('./flags/pf.jpg'),
+    GA: require('./flags/ga.jpg'),
+    GM: require('./flags/gm.jpg'),
+    GE: require('./flags/ge.jpg'),
+    DE: require('./flags/de.jpg'),
+    GH: require('./flags/gh.jpg'),
+    GI: require('./flags/gi.jpg'),
+    GR: require('./flags/gr.jpg'),
+    GL: require('./flags/gl.jpg'),
+    GD: require('./flags/gd.jpg'),
+    GP: require('./flags/gp.jpg'),
+    GU: require('./flags/gu.jpg'),
+    GT: require('./flags/gt.jpg'),
+    GG: require('./flags/gg.jpg'),
+    GN: require('./flags/gn.jpg'),
+    GW: require('./flags/gw.jpg'),
+    GY: require('./flags/gy.jpg'),
+    HT: require('./flags/ht.jpg'),
+    HN: require('./flags/hn.jpg'),
+    HK: require('./flags/hk.jpg'),
+    HU: require('./flags/hu.jpg'),
+    IS: require('./flags/is.jpg'),
+    IN: require('./flags/in.jpg'),
+    ID: require('./flags/id.jpg'),
+    IR: require('./flags/ir.jpg'),
+    IQ: require('./flags/iq.jpg'),
+    IE: require('./flags/ie.jpg'),
+    IM: require('./flags/im.jpg'),
+    IL: require('./flags/il.jpg'),
+    IT: require('./flags/it.jpg'),
+    CI: require('./flags/ci.jpg'),
+    JM: require('./flags/jm.jpg'),
+    JP: require('./flags/jp.jpg'),
+    JE: require('./flags/je.jpg'),
+    JO: require('./flags/jo.jpg'),
+    KZ: require('./flags/kz.jpg'),
+    KE: require('./flags/ke.jpg'),
+    KI: require('./flags/ki.jpg'),
+    XK: require('./flags/xk.jpg'),
+    KW: require('./flags/kw.jpg'),
+    KG: require('./flags/kg.jpg'),
+    LA: require('./flags/la.jpg'),
+    LV: require('./flags/lv.jpg'),
+    LB: require('./flags/lb.jpg'),
+    LS: require('./flags/ls.jpg'),
+    LR: require('./flags/lr.jpg'),
+    LY: require('./flags/ly.jpg'),
+    LI: require('./flags/li.jpg'),
+    LT: require('./flags/lt.jpg'),
+    LU: require('./flags/lu.jpg'),
+    MO: require('./flags/mo.jpg'),
+    MG: require('./flags/mg.jpg'),
+    MW: require('./flags/mw.jpg'),
+    MY: require('./flags/my.jpg'),
+    MV: require('./flags/mv.jpg'),
+    ML: require('./flags/ml.jpg'),
+    MT: require('./flags/mt.jpg'),
+    MH: require('./flags/mh.jpg'),
+    MQ: require('./flags/mq.jpg'),
+    MR: require('./flags/mr.jpg'),
+    MU: require('./flags/mu.jpg'),
+    YT: require('./flags/yt.jpg'),
+    MX: require('./flags/mx.jpg'),
+    FM: require('./flags/fm.jpg'),
+    MD: require('./flags/md.jpg'),
+    MC: require('./flags/mc.jpg'),
+    MN: require('./flags/mn.jpg'),
+    ME: require('./flags/me.jpg'),
+    MS: require('./flags/ms.jpg'),
+    MA: require('./flags/ma.jpg'),
+    MZ: require('./flags/mz.jpg'),
+    MM: require('./flags/mm.jpg'),
+    NA: require('./flags/na.jpg'),
+    NR: require('./flags/nr.jpg'),
+    NP: require('./flags/np.jpg'),
+    NL: require('./flags/nl.jpg'),
+    NC: require('./flags/nc.jpg'),
+    NZ: require('./flags/nz.jpg'),
+    NI: require('./flags/ni.jpg'),
+    NE: require('./flags/ne.jpg'),
+    NG: require('./flags/ng.jpg'),
+    NU: require('./flags/nu.jpg'),
+    NF: require('./flags/nf.jpg'),
+    KP: require('./flags/kp.jpg'),
+    MK: require('./flags/mk.jpg'),
+    MP: require('./flags/mp.jpg'),
+    NO: require('./flags/no.jpg'),
+    OM: require('./flags/om.jpg'),
+    PK: require('./flags/pk.jpg'),
+    PW: require('./flags/pw.jpg'),
+    PS: require('./flags/ps.jpg'),
+    PA: require('./flags/pa.jpg'),
+    PG: require('./flags/pg.jpg'),
+    PY: require('./flags/py.jpg'),
+    PE: require('./flags/pe.jpg'),
+    PH: require('./flags/ph.jpg'),
+    PL: require('./flags/pl.jpg'),
+    PT: require('./flags/pt.jpg'),
+    PR: require('./flags/pr.jpg'),
+    QA: require('./flags/qa.jpg'),
+    RE: require('./flags/re.jpg'),
+    RO: require('./flags/ro.jpg'),
+    RU: require('./flags/ru.jpg'),
+    RW: require('./flags/rw.jpg'),
+    BL: require('./flags/bl.jpg'),
+    SH: require('./flags/sh.jpg'),
+    KN: require('./flags/kn.jpg'),
+    LC: require('./flags/lc.jpg'),
+    MF: require('./flags/mf.jpg'),
+    PM: require('./flags/pm.jpg'),
+    VC: require('./flags/vc.jpg'),
+    WS: require('./flags/ws.jpg'),
+    SM: require('./flags/sm.jpg'),
+    ST: require('./flags/st.jpg'),
+    SA: require('./flags/sa.jpg'),
+    SN: require('./flags/sn.jpg'),
+    RS: require('./flags/rs.jpg'),
+    SC: require('./flags/sc.jpg'),
+    SL: require('./flags/sl.jpg'),
+    SG: require('./flags/sg.jpg'),
+    SX: require('./flags/sx.jpg'),
+    SK: require('./flags/sk.jpg'),
+    SI: require('./flags/si.jpg'),
+    SB: require('./flags/sb.jpg'),
+    SO: require('./flags/so.jpg'),
+    ZA: require('./flags/za.jpg'),
+    KR: require('./flags/kr.jpg'),
+    SS: require('./flags/ss.jpg'),
+    ES: require('./flags/es.jpg'),
+    LK: require('./flags/lk.jpg'),
+    SD: require('./flags/sd.jpg'),
+    SR: require('./flags/sr.jpg'),
+    SJ: require('./flags/sj.jpg'),
+    SE: require('./flags/se.jpg'),
+    CH: require('./flags/ch.jpg'),
+    SY: require('./flags/sy.jpg'),
+    TW: require('./flags/tw.jpg'),
+    TJ: require('./flags/tj.jpg'),
+    TZ: require('./flags/tz.jpg'),
+    TH: require('./flags/th.jpg'),
+    TG: require('./flags/tg.jpg'),
+    TK: require('./flags/tk.jpg'),
+    TO: require('./flags/to.jpg'),
+    TT: require('./flags/tt.jpg'),
+    TN: require('./flags/tn.jpg'),
+    TR: require('./flags/tr.jpg'),
+    TM: require('./flags/tm.jpg'),
+    TC: require('./flags/tc.jpg'),
+    TV: require('./flags/tv.jpg'),
+    VI: require('./flags/vi.jpg'),
+    UG: require('./flags/ug.jpg'),
+    UA: require('./flags/ua.jpg'),
+    AE: require('./flags/ae.jpg'),
+    GB: require('./flags/gb.jpg'),
+    US: require('./flags/us.jpg'),
+    UY: require('./flags/uy.jpg'),
+    UZ: require('./flags/uz.jpg'),
+    VU: require('./flags/vu.jpg'),
+    VA: require('./flags/va.jpg'),
+    VE: require('./flags/ve.jpg'),
+    VN: require('./flags/vn.jpg'),
+    WF: require('./flags/wf.jpg'),
+    EH: require('./flags/eh.jpg'),
+    YE: require('./flags/ye.jpg'),
+    ZM: require('./flags/zm.jpg'),
+    ZW: require('./flags/zw.jpg')
+};
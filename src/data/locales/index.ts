@@ -0,0 +1,63 @@
+import { countryList, Country } from '../countryList';
+import { CountryNames } from './types';
+import { tr } from './tr';
+import { de } from './de';
+import { fr } from './fr';
+import { es } from './es';
+import { ar } from './ar';
+import { defaultLabels, labelTranslations, errorLabelKeys, PhoneInputLabels } from './labels';
+import type { PhoneValidationReason } from '../../utils/phoneUtils';
+
+// English names live in `countryList` itself
+const registry: Record<string, CountryNames> = { tr, de, fr, es, ar };
+const labelRegistry: Record<string, Partial<PhoneInputLabels>> = { ...labelTranslations };
+
+// Resolves 'tr-TR' / 'tr_TR' to a registered table, falling back to the bare language
+const resolve = <T>(tables: Record<string, T>, locale?: string): T | undefined => {
+    if (!locale) return undefined;
+    const normalized = locale.replace('_', '-');
+    return tables[normalized] || tables[normalized.split('-')[0].toLowerCase()];
+};
+
+const resolveNames = (locale?: string) => resolve(registry, locale);
+
+export const registerCountryNames = (locale: string, names: CountryNames) => {
+    registry[locale] = { ...registry[locale], ...names };
+};
+
+export const getRegisteredLocales = (): string[] => ['en', ...Object.keys(registry)];
+
+export const getCountryName = (iso2: string, locale?: string): string => {
+    const localized = resolveNames(locale)?.[iso2];
+    if (localized) return localized;
+    return countryList.find(c => c.iso2 === iso2)?.name || iso2;
+};
+
+export const localizeCountries = (list: Country[], locale?: string): Country[] => {
+    const names = resolveNames(locale);
+    if (!names) return list;
+
+    return list
+        .map(c => (names[c.iso2] ? { ...c, name: names[c.iso2] as string } : c))
+        .sort((a, b) => a.name.localeCompare(b.name, locale));
+};
+
+export const registerLabels = (locale: string, labels: Partial<PhoneInputLabels>) => {
+    labelRegistry[locale] = { ...labelRegistry[locale], ...labels };
+};
+
+// Explicit overrides win over the locale's table, which wins over English
+export const getLabels = (locale?: string, overrides?: Partial<PhoneInputLabels>): PhoneInputLabels => ({
+    ...defaultLabels,
+    ...resolve(labelRegistry, locale),
+    ...overrides,
+});
+
+// Message for a validation reason in the locale's language
+export const getErrorMessage = (reason: PhoneValidationReason, locale?: string, overrides?: Partial<PhoneInputLabels>): string =>
+    getLabels(locale, overrides)[errorLabelKeys[reason]];
+
+export const formatLabel = (template: string, country: Country): string =>
+    template.replace('{name}', country.name).replace('{callingCode}', country.callingCode);
+
+export type { CountryNames, PhoneInputLabels };
@@ -0,0 +1,206 @@
+import type { PhoneValidationReason } from '../../utils/phoneUtils';
+
+// Every user-visible and screen-reader string used by the component.
+// `{name}` and `{callingCode}` are replaced with the country's values.
+export interface PhoneInputLabels {
+    placeholder: string;
+    searchPlaceholder: string;
+    noResults: string;
+    arrowOpen: string;
+    arrowClosed: string;
+    pickerTitle: string; // Full-screen picker header
+    closeButton: string;
+
+    // Picker sections
+    preferredSection: string;
+    recentSection: string;
+
+    // Accessibility
+    phoneInputLabel: string;
+    countryPickerLabel: string;
+    countryLabel: string;
+    searchLabel: string;
+    closePickerLabel: string;
+    sectionIndexLabel: string; // `{letter}` is replaced with the section letter
+    countryFieldLabel: string; // CountryPicker trigger without calling codes
+    callActionHint: string; // PhoneNumberText tap-to-call
+    copyActionHint: string;
+
+    // Validation messages used by the form adapters and `phoneSchema`, one per reason
+    errorNotANumber: string;
+    errorInvalidCountry: string;
+    errorTooShort: string;
+    errorTooLong: string;
+    errorInvalidLength: string;
+    errorInvalidNumber: string;
+    errorDisallowedType: string;
+    errorDisallowedCountry: string;
+}
+
+export const errorLabelKeys: Record<PhoneValidationReason, keyof PhoneInputLabels> = {
+    NOT_A_NUMBER: 'errorNotANumber',
+    INVALID_COUNTRY: 'errorInvalidCountry',
+    TOO_SHORT: 'errorTooShort',
+    TOO_LONG: 'errorTooLong',
+    INVALID_LENGTH: 'errorInvalidLength',
+    INVALID_NUMBER: 'errorInvalidNumber',
+    DISALLOWED_TYPE: 'errorDisallowedType',
+    DISALLOWED_COUNTRY: 'errorDisallowedCountry',
+};
+
+export const defaultLabels: PhoneInputLabels = {
+    placeholder: 'Phone Number',
+    searchPlaceholder: 'Search...',
+    noResults: 'No countries found',
+    arrowOpen: '▲',
+    arrowClosed: '▼',
+    pickerTitle: 'Select country',
+    closeButton: '✕',
+    preferredSection: 'Preferred',
+    recentSection: 'Recent',
+    phoneInputLabel: 'Phone number',
+    countryPickerLabel: 'Country code',
+    countryLabel: '{name}, plus {callingCode}',
+    searchLabel: 'Search countries',
+    closePickerLabel: 'Close country picker',
+    sectionIndexLabel: 'Jump to {letter}',
+    countryFieldLabel: 'Country',
+    callActionHint: 'Calls this number',
+    copyActionHint: 'Copies this number',
+    errorNotANumber: 'Enter a phone number',
+    errorInvalidCountry: 'Include the country code',
+    errorTooShort: 'Phone number is too short',
+    errorTooLong: 'Phone number is too long',
+    errorInvalidLength: 'Phone number has an invalid length',
+    errorInvalidNumber: 'Enter a valid phone number',
+    errorDisallowedType: 'This type of phone number is not accepted',
+    errorDisallowedCountry: 'Phone numbers from this country are not accepted',
+};
+
+export const labelTranslations: Record<string, Partial<PhoneInputLabels>> = {
+    tr: {
+        placeholder: 'Telefon Numarası',
+        searchPlaceholder: 'Ara...',
+        noResults: 'Ülke bulunamadı',
+        pickerTitle: 'Ülke seçin',
+        preferredSection: 'Tercih edilenler',
+        recentSection: 'Son kullanılanlar',
+        phoneInputLabel: 'Telefon numarası',
+        countryPickerLabel: 'Ülke kodu',
+        countryLabel: '{name}, artı {callingCode}',
+        searchLabel: 'Ülke ara',
+        closePickerLabel: 'Ülke seçiciyi kapat',
+        sectionIndexLabel: '{letter} harfine git',
+        countryFieldLabel: 'Ülke',
+        callActionHint: 'Bu numarayı arar',
+        copyActionHint: 'Bu numarayı kopyalar',
+        errorNotANumber: 'Bir telefon numarası girin',
+        errorInvalidCountry: 'Ülke kodunu ekleyin',
+        errorTooShort: 'Telefon numarası çok kısa',
+        errorTooLong: 'Telefon numarası çok uzun',
+        errorInvalidLength: 'Telefon numarasının uzunluğu geçersiz',
+        errorInvalidNumber: 'Geçerli bir telefon numarası girin',
+        errorDisallowedType: 'Bu tür telefon numarası kabul edilmiyor',
+        errorDisallowedCountry: 'Bu ülkeden telefon numaraları kabul edilmiyor',
+    },
+    de: {
+        placeholder: 'Telefonnummer',
+        searchPlaceholder: 'Suchen...',
+        noResults: 'Keine Länder gefunden',
+        pickerTitle: 'Land auswählen',
+        preferredSection: 'Bevorzugt',
+        recentSection: 'Zuletzt verwendet',
+        phoneInputLabel: 'Telefonnummer',
+        countryPickerLabel: 'Landesvorwahl',
+        countryLabel: '{name}, plus {callingCode}',
+        searchLabel: 'Länder suchen',
+        closePickerLabel: 'Länderauswahl schließen',
+        sectionIndexLabel: 'Zu {letter} springen',
+        countryFieldLabel: 'Land',
+        callActionHint: 'Ruft diese Nummer an',
+        copyActionHint: 'Kopiert diese Nummer',
+        errorNotANumber: 'Geben Sie eine Telefonnummer ein',
+        errorInvalidCountry: 'Geben Sie die Landesvorwahl an',
+        errorTooShort: 'Die Telefonnummer ist zu kurz',
+        errorTooLong: 'Die Telefonnummer ist zu lang',
+        errorInvalidLength: 'Die Telefonnummer hat eine ungültige Länge',
+        errorInvalidNumber: 'Geben Sie eine gültige Telefonnummer ein',
+        errorDisallowedType: 'Diese Art von Telefonnummer wird nicht akzeptiert',
+        errorDisallowedCountry: 'Telefonnummern aus diesem Land werden nicht akzeptiert',
+    },
+    fr: {
+        placeholder: 'Numéro de téléphone',
+        searchPlaceholder: 'Rechercher...',
+        noResults: 'Aucun pays trouvé',
+        pickerTitle: 'Choisir un pays',
+        preferredSection: 'Préférés',
+        recentSection: 'Récents',
+        phoneInputLabel: 'Numéro de téléphone',
+        countryPickerLabel: 'Indicatif du pays',
+        countryLabel: '{name}, plus {callingCode}',
+        searchLabel: 'Rechercher un pays',
+        closePickerLabel: 'Fermer la sélection du pays',
+        sectionIndexLabel: 'Aller à {letter}',
+        countryFieldLabel: 'Pays',
+        callActionHint: 'Appelle ce numéro',
+        copyActionHint: 'Copie ce numéro',
+        errorNotANumber: 'Saisissez un numéro de téléphone',
+        errorInvalidCountry: 'Ajoutez l’indicatif du pays',
+        errorTooShort: 'Le numéro de téléphone est trop court',
+        errorTooLong: 'Le numéro de téléphone est trop long',
+        errorInvalidLength: 'La longueur du numéro de téléphone est incorrecte',
+        errorInvalidNumber: 'Saisissez un numéro de téléphone valide',
+        errorDisallowedType: 'Ce type de numéro de téléphone n’est pas accepté',
+        errorDisallowedCountry: 'Les numéros de ce pays ne sont pas acceptés',
+    },
+    es: {
+        placeholder: 'Número de teléfono',
+        searchPlaceholder: 'Buscar...',
+        noResults: 'No se encontraron países',
+        pickerTitle: 'Seleccionar país',
+        preferredSection: 'Preferidos',
+        recentSection: 'Recientes',
+        phoneInputLabel: 'Número de teléfono',
+        countryPickerLabel: 'Código de país',
+        countryLabel: '{name}, más {callingCode}',
+        searchLabel: 'Buscar países',
+        closePickerLabel: 'Cerrar selector de país',
+        sectionIndexLabel: 'Ir a {letter}',
+        countryFieldLabel: 'País',
+        callActionHint: 'Llama a este número',
+        copyActionHint: 'Copia este número',
+        errorNotANumber: 'Introduce un número de teléfono',
+        errorInvalidCountry: 'Incluye el código de país',
+        errorTooShort: 'El número de teléfono es demasiado corto',
+        errorTooLong: 'El número de teléfono es demasiado largo',
+        errorInvalidLength: 'La longitud del número de teléfono no es válida',
+        errorInvalidNumber: 'Introduce un número de teléfono válido',
+        errorDisallowedType: 'No se acepta este tipo de número de teléfono',
+        errorDisallowedCountry: 'No se aceptan números de este país',
+    },
+    ar: {
+        placeholder: 'رقم الهاتف',
+        searchPlaceholder: 'بحث...',
+        noResults: 'لم يتم العثور على دول',
+        pickerTitle: 'اختر الدولة',
+        preferredSection: 'المفضلة',
+        recentSection: 'المستخدمة مؤخرًا',
+        phoneInputLabel: 'رقم الهاتف',
+        countryPickerLabel: 'رمز الدولة',
+        countryLabel: '{name}، زائد {callingCode}',
+        searchLabel: 'البحث عن الدول',
+        closePickerLabel: 'إغلاق قائمة الدول',
+        sectionIndexLabel: 'الانتقال إلى {letter}',
+        countryFieldLabel: 'الدولة',
+        callActionHint: 'يتصل بهذا الرقم',
+        copyActionHint: 'ينسخ هذا الرقم',
+        errorNotANumber: 'أدخل رقم هاتف',
+        errorInvalidCountry: 'أضف رمز الدولة',
+        errorTooShort: 'رقم الهاتف قصير جدًا',
+        errorTooLong: 'رقم الهاتف طويل جدًا',
+        errorInvalidLength: 'طول رقم الهاتف غير صالح',
+        errorInvalidNumber: 'أدخل رقم هاتف صالحًا',
+        errorDisallowedType: 'هذا النوع من أرقام الهاتف غير مقبول',
+        errorDisallowedCountry: 'أرقام الهاتف من هذه الدولة غير مقبولة',
+    },
+};
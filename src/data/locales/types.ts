@@ -0,0 +1,2 @@
+// Translated country names, keyed by ISO 3166-1 alpha-2 code
+export type CountryNames = Partial<Record<string, string>>;
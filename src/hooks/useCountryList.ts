@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CountryCode } from 'libphonenumber-js';
+import { countryList, Country } from '../data/countryList';
+import { localizeCountries } from '../data/locales';
+import { buildSearchIndex, searchCountries } from '../utils/countrySearch';
+import {
+    RecentCountriesOptions,
+    DEFAULT_RECENT_LIMIT,
+    DEFAULT_RECENT_STORAGE_KEY,
+    memoryStorage,
+    loadRecentCountries,
+    saveRecentCountries,
+    addRecentCountry,
+} from '../utils/recentCountries';
+
+// --- Interfaces ---
+
+export interface UseCountryListOptions {
+    locale?: string;
+    preferredCountries?: CountryCode[];
+    allowedCountries?: CountryCode[];
+    excludedCountries?: CountryCode[];
+    // Remember countries picked from the list; `true` keeps the last 5 in memory
+    recentCountries?: boolean | RecentCountriesOptions;
+}
+
+export interface UseCountryListResult {
+    countries: Country[];
+    recentCountries: Country[];
+    filteredCountries: Country[];
+    searchQuery: string;
+    setSearchQuery: (query: string) => void;
+    rememberCountry: (country: Country) => void;
+}
+
+// --- Hook ---
+
+// Country data behind both `usePhoneInput` and `CountryPicker`: filtering, ordering, search and recents
+export const useCountryList = (options: UseCountryListOptions): UseCountryListResult => {
+    const {
+        locale,
+        preferredCountries,
+        allowedCountries,
+        excludedCountries,
+        recentCountries: recentCountriesOption,
+    } = options;
+
+    const recentOptions = typeof recentCountriesOption === 'object' ? recentCountriesOption : undefined;
+    const isRecentEnabled = !!recentCountriesOption;
+    const recentLimit = recentOptions?.limit ?? DEFAULT_RECENT_LIMIT;
+    const recentStorage = recentOptions?.storage ?? memoryStorage;
+    const recentStorageKey = recentOptions?.storageKey ?? DEFAULT_RECENT_STORAGE_KEY;
+
+    const countries = useMemo(() => {
+        let list = [...localizeCountries(countryList, locale)];
+
+        // Filter allowed
+        if (allowedCountries && allowedCountries.length > 0) {
+            list = list.filter(c => allowedCountries.includes(c.iso2 as CountryCode));
+        }
+
+        // Filter excluded
+        if (excludedCountries && excludedCountries.length > 0) {
+            list = list.filter(c => !excludedCountries.includes(c.iso2 as CountryCode));
+        }
+
+        // Sort preferred to top
+        if (preferredCountries && preferredCountries.length > 0) {
+            const preferred = list.filter(c => preferredCountries.includes(c.iso2 as CountryCode));
+            const others = list.filter(c => !preferredCountries.includes(c.iso2 as CountryCode));
+            // Sort preferred by index in preferredCountries array to respect order
+            preferred.sort((a, b) => preferredCountries.indexOf(a.iso2 as CountryCode) - preferredCountries.indexOf(b.iso2 as CountryCode));
+            list = [...preferred, ...others];
+        }
+
+        return list;
+    }, [allowedCountries, excludedCountries, preferredCountries, locale]);
+
+    const [searchQuery, setSearchQuery] = useState('');
+    const [recentIso2, setRecentIso2] = useState<string[]>([]);
+
+    // Load remembered countries
+    useEffect(() => {
+        if (!isRecentEnabled) return;
+        let isActive = true;
+
+        loadRecentCountries(recentStorage, recentStorageKey).then(iso2List => {
+            if (isActive) {
+                setRecentIso2(iso2List);
+            }
+        });
+
+        return () => {
+            isActive = false;
+        };
+    }, [isRecentEnabled, recentStorage, recentStorageKey]);
+
+    // Preferred countries are already pinned, so the stored list keeps extra room for them
+    const rememberCountry = useCallback((country: Country) => {
+        if (!isRecentEnabled) return;
+        setRecentIso2(prev => {
+            const next = addRecentCountry(prev, country.iso2, recentLimit + (preferredCountries?.length || 0));
+            saveRecentCountries(recentStorage, recentStorageKey, next);
+            return next;
+        });
+    }, [isRecentEnabled, recentLimit, preferredCountries, recentStorage, recentStorageKey]);
+
+    // Filtered and localized like the main list; preferred countries are not repeated
+    const recentCountries = useMemo(() => {
+        if (!isRecentEnabled) return [];
+        return recentIso2
+            .filter(iso2 => !preferredCountries?.includes(iso2 as CountryCode))
+            .map(iso2 => countries.find(c => c.iso2 === iso2))
+            .filter((country): country is Country => !!country)
+            .slice(0, recentLimit);
+    }, [isRecentEnabled, recentIso2, preferredCountries, countries, recentLimit]);
+
+    // Built on the first search rather than on mount
+    const hasQuery = !!searchQuery;
+    const searchIndex = useMemo(() => (hasQuery ? buildSearchIndex(countries) : []), [hasQuery, countries]);
+
+    const filteredCountries = useMemo(() => {
+        if (!searchQuery) return countries;
+        return searchCountries(searchIndex, searchQuery);
+    }, [searchQuery, searchIndex, countries]);
+
+    return {
+        countries,
+        recentCountries,
+        filteredCountries,
+        searchQuery,
+        setSearchQuery,
+        rememberCountry,
+    };
+};
@@ -0,0 +1,391 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AsYouType, parsePhoneNumber, CountryCode } from 'libphonenumber-js/max';
+import { countryList, Country } from '../data/countryList';
+import { getMainTerritory, findTerritory } from '../data/callingCodes';
+import {
+    getNumber,
+    detectInternational,
+    formatNational,
+    toChangeValue,
+    getValidationError,
+    getDetails,
+    PhoneNumberDetails,
+    PhoneNumberType,
+    PhoneValidationReason,
+    PhoneValidationResult,
+} from '../utils/phoneUtils';
+import { getDeviceRegion, detectDeviceCountry, CountryResolver } from '../utils/deviceRegion';
+import { RecentCountriesOptions } from '../utils/recentCountries';
+import { useCountryList } from './useCountryList';
+
+// --- Interfaces ---
+
+// Number types live with the pure helpers; re-exported here for existing imports
+export type { PhoneNumberDetails, PhoneNumberType, PhoneValidationReason, PhoneValidationResult };
+
+export interface UsePhoneInputOptions {
+    // Controlled when set; otherwise the hook keeps the number itself, starting from `defaultValue`
+    value?: string;
+    defaultValue?: string;
+    onChange?: (value: string, iso2: CountryCode) => void;
+    onChangeDetails?: (details: PhoneNumberDetails) => void;
+    onValidationChange?: (result: PhoneValidationResult) => void;
+    defaultCountry?: CountryCode;
+    // Start from the device region (or a custom resolver's answer) instead of `defaultCountry`
+    autoDetectCountry?: boolean | CountryResolver;
+    locale?: string;
+
+    // Validation
+    allowedNumberTypes?: PhoneNumberType[];
+
+    // Data Configuration
+    preferredCountries?: CountryCode[];
+    allowedCountries?: CountryCode[];
+    excludedCountries?: CountryCode[];
+    // Remember countries picked from the list; `true` keeps the last 5 in memory
+    recentCountries?: boolean | RecentCountriesOptions;
+}
+
+export interface UsePhoneInputResult {
+    // State
+    selectedCountry: Country;
+    nationalValue: string;
+    value: string; // As reported by `onChange`, except '' while there are no digits
+    e164: string | undefined;
+    isValid: boolean;
+    validationError: PhoneValidationReason | undefined;
+    validate: () => PhoneValidationResult;
+
+    // Picker
+    countries: Country[];
+    recentCountries: Country[];
+    filteredCountries: Country[];
+    searchQuery: string;
+    isOpen: boolean;
+
+    // Handlers
+    handleTextChange: (text: string) => void;
+    handleSelectCountry: (country: Country) => void;
+    setValue: (value: string) => void; // E.164 or national; reported through `onChange`
+    clear: () => void; // Reports '' through `onChange`
+    setCountry: (iso2: CountryCode) => void;
+    setSearchQuery: (query: string) => void;
+    openPicker: () => void;
+    closePicker: () => void;
+    togglePicker: () => void;
+}
+
+// --- Hook ---
+
+export const usePhoneInput = (options: UsePhoneInputOptions): UsePhoneInputResult => {
+    const {
+        value,
+        defaultValue,
+        onChange,
+        onChangeDetails,
+        onValidationChange,
+        defaultCountry = 'TR',
+        autoDetectCountry,
+        locale,
+        allowedNumberTypes,
+        preferredCountries,
+        allowedCountries,
+        excludedCountries,
+        recentCountries: recentCountriesOption,
+    } = options;
+
+    const {
+        countries: finalCountryList,
+        recentCountries,
+        filteredCountries,
+        searchQuery,
+        setSearchQuery,
+        rememberCountry,
+    } = useCountryList({ locale, preferredCountries, allowedCountries, excludedCountries, recentCountries: recentCountriesOption });
+
+    const isControlled = value !== undefined;
+
+    // --- State ---
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [internalNational, setInternalNational] = useState('');
+    const [selectedCountry, setSelectedCountry] = useState<Country>(() => {
+        const find = (iso2?: string) => (iso2 ? finalCountryList.find(c => c.iso2 === iso2) : undefined);
+        // A value implies its own country, so detection only applies to empty inputs
+        const detected = autoDetectCountry && !(value ?? defaultValue) ? find(getDeviceRegion()) : undefined;
+        return detected || find(defaultCountry) || finalCountryList[0] || countryList[0];
+    });
+
+    // Last value sent to a controlled parent; its echo is skipped. A parent may also store something else
+    // (forms keep '' for a bare calling code), so a flag would swallow the next real change
+    const lastEmittedValue = useRef<string | undefined>(undefined);
+    const hasUserInput = useRef(false);
+    const valueRef = useRef(value ?? defaultValue);
+    valueRef.current = isControlled ? value : valueRef.current;
+
+    // Custom resolvers may be async (SIM, IP lookup); their answer is dropped once the user or a value picked a country
+    useEffect(() => {
+        if (typeof autoDetectCountry !== 'function') return;
+        let isActive = true;
+
+        detectDeviceCountry(autoDetectCountry).then(iso2 => {
+            if (!isActive || hasUserInput.current || valueRef.current) return;
+            const country = finalCountryList.find(c => c.iso2 === iso2);
+            if (country) {
+                setSelectedCountry(country);
+            }
+        });
+
+        return () => {
+            isActive = false;
+        };
+    }, []); // Detect once on mount
+
+    // --- Logic ---
+
+    // Territories the number may belong to; only passed on when the list is restricted, so numbers from
+    // territories missing in `countryList` still validate
+    const availableCountries = useMemo(
+        () => (allowedCountries || excludedCountries ? finalCountryList.map(c => c.iso2) : undefined),
+        [allowedCountries, excludedCountries, finalCountryList]
+    );
+
+    // Picks the territory for an international number. A detected territory must be available; only
+    // while the calling code is still ambiguous does it fall back to the current country if it shares
+    // the code, then the code's main territory
+    const resolveCountry = useCallback((iso2: string | undefined, callingCode: string): Country | undefined => {
+        const find = (code?: string) => (code ? finalCountryList.find(c => c.iso2 === code) : undefined);
+        if (iso2) return find(iso2);
+        return (selectedCountry.callingCode === callingCode ? selectedCountry : undefined)
+            || find(getMainTerritory(callingCode))
+            || finalCountryList.find(c => c.callingCode === callingCode);
+    }, [finalCountryList, selectedCountry]);
+
+    // Shows `next` in the field, switching country where it implies one; returns the country and
+    // national text it settled on
+    const applyValue = useCallback((next: string): { country: Country; text: string } => {
+        if (!next) {
+            setInternalNational('');
+            return { country: selectedCountry, text: '' };
+        }
+
+        // International values: pick the territory from the calling code and area code / leading digits,
+        // so shared codes (+1, +7, +44...) don't depend on parse order
+        if (next.startsWith('+')) {
+            const detected = detectInternational(next);
+            // Values can't be refused, so one from an unavailable territory is shown under a country with
+            // the same calling code and reported as DISALLOWED_COUNTRY
+            const country = detected.callingCode
+                && (resolveCountry(detected.iso2, detected.callingCode) || resolveCountry(undefined, detected.callingCode));
+            if (country) {
+                if (country.iso2 !== selectedCountry.iso2) {
+                    setSelectedCountry(country);
+                }
+                setInternalNational(formatNational(detected.nationalDigits, country));
+                return { country, text: detected.nationalDigits };
+            }
+        }
+
+        try {
+            // Try parsing with selected country first to keep it if possible
+            let parsed = parsePhoneNumber(next, selectedCountry.iso2 as CountryCode);
+
+            // If invalid or mismatch, try parsing generically
+            if (!parsed || !parsed.isValid()) {
+                try {
+                    parsed = parsePhoneNumber(next);
+                } catch (e) { }
+            }
+
+            if (parsed && parsed.country) {
+                const newCountry = parsed.country !== selectedCountry.iso2
+                    ? finalCountryList.find(c => c.iso2 === parsed.country)
+                    : undefined;
+                if (newCountry) {
+                    setSelectedCountry(newCountry);
+                }
+
+                const asYouType = new AsYouType(parsed.country as CountryCode);
+                asYouType.input(next);
+                const formatted = asYouType.getNumber()?.format('NATIONAL') || next;
+                setInternalNational(formatted);
+                return { country: newCountry || selectedCountry, text: parsed.nationalNumber };
+            }
+        } catch (e) { }
+
+        setInternalNational(next);
+        return { country: selectedCountry, text: next };
+    }, [selectedCountry, resolveCountry, finalCountryList]);
+
+    // Sync prop value (controlled mode only)
+    useEffect(() => {
+        if (!isControlled) return;
+        const isEcho = value === lastEmittedValue.current;
+        lastEmittedValue.current = undefined;
+        if (isEcho) return;
+        applyValue(value);
+    }, [value, finalCountryList]); // We depend on finalCountryList to validate availability
+
+    // Uncontrolled mode starts from `defaultValue`
+    useEffect(() => {
+        if (!isControlled && defaultValue) {
+            applyValue(defaultValue);
+        }
+    }, []); // Only on mount, like an uncontrolled TextInput
+
+    // Only a controlled parent echoes the value back, so only then is the echo skipped
+    const emitChange = useCallback((text: string, country: Country, next = toChangeValue(text, country)) => {
+        if (isControlled) {
+            lastEmittedValue.current = next;
+        }
+        onChange?.(next, country.iso2 as CountryCode);
+        onChangeDetails?.(getDetails(text, country, allowedNumberTypes, availableCountries));
+    }, [isControlled, onChange, onChangeDetails, allowedNumberTypes, availableCountries]);
+
+    const handleTextChange = useCallback((text: string) => {
+        if (!/^\+?[0-9\s\-()]*$/.test(text)) return; // Strict char check
+        hasUserInput.current = true;
+
+        // Typed or pasted "+44 20 ..." / "0044 20 ...": detect the country and keep only the national part
+        const trimmed = text.trim();
+        if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+            const detected = detectInternational('+' + trimmed.replace(/^(\+|00)/, ''));
+
+            // Calling code still incomplete ("+3"): show as typed until it resolves
+            if (!detected.callingCode) {
+                setInternalNational(text);
+                return;
+            }
+
+            const country = resolveCountry(detected.iso2, detected.callingCode);
+            if (!country) return; // Not an available country
+
+            setSelectedCountry(country);
+            setInternalNational(formatNational(detected.nationalDigits, country));
+            emitChange(detected.nationalDigits, country);
+            return;
+        }
+
+        // National input under a shared calling code: follow the area code to its territory ("876..." -> JM)
+        const nationalNumber = getNumber(text, selectedCountry)?.nationalNumber || text.replace(/[^0-9]/g, '');
+        const territory = findTerritory(selectedCountry.callingCode, nationalNumber);
+        const country = (territory !== selectedCountry.iso2 && finalCountryList.find(c => c.iso2 === territory)) || selectedCountry;
+
+        const asYouType = new AsYouType(country.iso2 as CountryCode);
+        const formatted = asYouType.input(text);
+
+        if (country !== selectedCountry) {
+            setSelectedCountry(country);
+        }
+        setInternalNational(formatted);
+        emitChange(text, country);
+    }, [selectedCountry, emitChange, resolveCountry, finalCountryList]);
+
+    // Ref to track current internalNational for country selection
+    const internalNationalRef = useRef(internalNational);
+    internalNationalRef.current = internalNational;
+
+    const handleSelectCountry = useCallback((country: Country) => {
+        const rawDigits = internalNationalRef.current.replace(/[^0-9]/g, '');
+        const asYouType = new AsYouType(country.iso2 as CountryCode);
+        const formatted = asYouType.input(rawDigits);
+        hasUserInput.current = true;
+        rememberCountry(country);
+
+        // Update state
+        setSelectedCountry(country);
+        setIsOpen(false);
+        setSearchQuery('');
+        setInternalNational(formatted);
+
+        // Emit change after state updates (use setTimeout to avoid render-phase setState)
+        setTimeout(() => {
+            onChange?.(toChangeValue(rawDigits, country), country.iso2 as CountryCode);
+            onChangeDetails?.(getDetails(rawDigits, country, allowedNumberTypes, availableCountries));
+        }, 0);
+    }, [onChange, onChangeDetails, allowedNumberTypes, availableCountries, rememberCountry, setSearchQuery]);
+
+    const setValue = useCallback((next: string) => {
+        hasUserInput.current = true;
+        valueRef.current = next;
+        const { country, text } = applyValue(next);
+        // Cleared through the API: report '' like `value`, not the bare calling code typing leaves behind
+        emitChange(text, country, next ? undefined : '');
+    }, [applyValue, emitChange]);
+
+    const clear = useCallback(() => setValue(''), [setValue]);
+
+    const setCountry = useCallback((iso2: CountryCode) => {
+        const country = finalCountryList.find(c => c.iso2 === iso2);
+        if (country) {
+            handleSelectCountry(country);
+        }
+    }, [finalCountryList, handleSelectCountry]);
+
+    // Keep the selected country's name in step with the active locale
+    const localizedSelectedCountry = useMemo(
+        () => finalCountryList.find(c => c.iso2 === selectedCountry.iso2) || selectedCountry,
+        [finalCountryList, selectedCountry]
+    );
+
+    const phoneNumber = useMemo(
+        () => getNumber(internalNational, selectedCountry),
+        [internalNational, selectedCountry]
+    );
+
+    const currentValue = useMemo(
+        () => (/[0-9]/.test(internalNational) ? toChangeValue(internalNational, selectedCountry) : ''),
+        [internalNational, selectedCountry]
+    );
+
+    const validationError = useMemo(
+        () => getValidationError(internalNational, selectedCountry, allowedNumberTypes, availableCountries),
+        [internalNational, selectedCountry, allowedNumberTypes, availableCountries]
+    );
+
+    const validate = useCallback(
+        (): PhoneValidationResult => ({ isValid: !validationError, reason: validationError }),
+        [validationError]
+    );
+
+    // Notify on validation changes (not on mount)
+    const onValidationChangeRef = useRef(onValidationChange);
+    onValidationChangeRef.current = onValidationChange;
+    const previousValidationError = useRef(validationError);
+
+    useEffect(() => {
+        if (previousValidationError.current === validationError) return;
+        previousValidationError.current = validationError;
+        onValidationChangeRef.current?.({ isValid: !validationError, reason: validationError });
+    }, [validationError]);
+
+    // --- Picker ---
+
+    const openPicker = useCallback(() => setIsOpen(true), []);
+    const closePicker = useCallback(() => setIsOpen(false), []);
+    const togglePicker = useCallback(() => setIsOpen(prev => !prev), []);
+
+    return {
+        selectedCountry: localizedSelectedCountry,
+        nationalValue: internalNational,
+        value: currentValue,
+        e164: phoneNumber && phoneNumber.isValid() ? phoneNumber.format('E.164') : undefined,
+        isValid: !validationError,
+        validationError,
+        validate,
+        countries: finalCountryList,
+        recentCountries,
+        filteredCountries,
+        searchQuery,
+        isOpen,
+        handleTextChange,
+        handleSelectCountry,
+        setValue,
+        clear,
+        setCountry,
+        setSearchQuery,
+        openPicker,
+        closePicker,
+        togglePicker,
+    };
+};
@@ -1,3 +1,46 @@
 export { InternationalPhoneInput } from './components/InternationalPhoneInput';
-export type { InternationalPhoneInputProps, InternationalPhoneInputRef } from './components/InternationalPhoneInput';
+export type {
+    InternationalPhoneInputProps,
+    InternationalPhoneInputRef,
+    CountryItemRenderInfo,
+    FlagRenderInfo,
+    TriggerRenderInfo,
+    SearchRenderInfo,
+    EmptyRenderInfo,
+} from './components/InternationalPhoneInput';
+export { CountryPicker } from './components/CountryPicker';
+export type { CountryPickerProps, CountryPickerRef, CountryPickerTriggerRenderInfo } from './components/CountryPicker';
+export { PhoneNumberText, PhoneNumberLabel } from './components/PhoneNumberText';
+export type { PhoneNumberTextProps, PhoneNumberLabelProps, PhoneNumberAction } from './components/PhoneNumberText';
+export { usePhoneInput } from './hooks/usePhoneInput';
+export { useCountryList } from './hooks/useCountryList';
+export type { UseCountryListOptions, UseCountryListResult } from './hooks/useCountryList';
+export type {
+    UsePhoneInputOptions,
+    UsePhoneInputResult,
+    PhoneNumberDetails,
+    PhoneNumberType,
+    PhoneValidationReason,
+    PhoneValidationResult,
+} from './hooks/usePhoneInput';
+export {
+    formatPhone,
+    parsePhone,
+    toE164,
+    validatePhone,
+    getCountryByIso2,
+    getCountriesByCallingCode,
+    detectCountry,
+} from './utils/phoneUtils';
+export type { PhoneNumberFormat, PhoneParseOptions, PhoneValidationOptions } from './utils/phoneUtils';
+export { PhoneInputThemeProvider, usePhoneInputTheme } from './theme/PhoneInputThemeProvider';
+export type { PhoneInputThemeProviderProps } from './theme/PhoneInputThemeProvider';
+export { lightTheme, darkTheme, mergeTheme } from './theme/theme';
+export type { PhoneInputTheme, PhoneInputThemeOverride, PhoneInputColorScheme } from './theme/theme';
+export { registerCountryNames, getCountryName, getRegisteredLocales, registerLabels, getLabels, getErrorMessage } from './data/locales';
+export type { CountryNames, PhoneInputLabels } from './data/locales';
+export { getDeviceRegion } from './utils/deviceRegion';
+export type { CountryResolver } from './utils/deviceRegion';
+export { createMemoryStorage } from './utils/recentCountries';
+export type { RecentCountriesOptions, RecentCountriesStorage } from './utils/recentCountries';
 export type { Country } from './data/countryList';
@@ -0,0 +1,59 @@
+import React, { useCallback } from 'react';
+import { useField } from 'formik';
+import { CountryCode } from 'libphonenumber-js';
+import { InternationalPhoneInput, InternationalPhoneInputProps } from '../components/InternationalPhoneInput';
+import { getPhoneError, toFormValue } from './phoneRules';
+
+// --- Interfaces ---
+
+export type FormikPhoneInputProps = Omit<InternationalPhoneInputProps, 'value' | 'defaultValue' | 'onChange' | 'onBlur'> & {
+    name: string;
+    onChange?: (value: string, iso2: CountryCode) => void;
+};
+
+// --- Component ---
+
+// `InternationalPhoneInput` bound to a Formik field, with a field-level validator built from the input's
+// `allowedCountries`, `excludedCountries`, `allowedNumberTypes` and `errorMessages`. Errors show once the
+// field is touched.
+export const FormikPhoneInput = ({ name, onChange, error, showErrorText = true, ...inputProps }: FormikPhoneInputProps) => {
+    const { allowedCountries, excludedCountries, allowedNumberTypes, errorMessages, locale, labels } = inputProps;
+
+    // Empty fields are left to the form's own `required` check
+    const validate = useCallback(
+        (value: string | undefined) => (value
+            ? getPhoneError(value, {
+                allowedCountries,
+                excludedCountries,
+                types: allowedNumberTypes,
+                errorMessages,
+                locale,
+                labels,
+            })
+            : undefined),
+        [allowedCountries, excludedCountries, allowedNumberTypes, errorMessages, locale, labels]
+    );
+
+    const [field, meta, helpers] = useField<string>({ name, validate });
+    const { setValue, setTouched } = helpers;
+
+    const handleChange = useCallback((value: string, iso2: CountryCode) => {
+        setValue(toFormValue(value, iso2));
+        onChange?.(value, iso2);
+    }, [setValue, onChange]);
+
+    const handleBlur = useCallback(() => {
+        setTouched(true);
+    }, [setTouched]);
+
+    return (
+        <InternationalPhoneInput
+            {...inputProps}
+            value={field.value ?? ''}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            error={error ?? (meta.touched ? meta.error : undefined)}
+            showErrorText={showErrorText}
+        />
+    );
+};
@@ -0,0 +1,40 @@
+// Validation shared by the form adapters and schema helpers; pure like `phoneUtils`, so the
+// zod and yup entry points also run in Node
+import { CountryCode } from 'libphonenumber-js';
+import { validatePhone, getCountryByIso2, PhoneNumberType, PhoneValidationReason } from '../utils/phoneUtils';
+import { getErrorMessage, PhoneInputLabels } from '../data/locales';
+
+// --- Interfaces ---
+
+export interface PhoneRuleOptions {
+    // Only needed for national numbers; values from the input are E.164
+    defaultCountry?: CountryCode;
+    allowedCountries?: CountryCode[];
+    excludedCountries?: CountryCode[];
+    types?: PhoneNumberType[];
+    // Messages come from the locale's labels (see `registerLabels`); `errorMessages` wins per reason
+    locale?: string;
+    labels?: Partial<PhoneInputLabels>;
+    errorMessages?: Partial<Record<PhoneValidationReason, string>>;
+}
+
+// --- Rules ---
+
+// Error message for `value`, or undefined when it is valid
+export const getPhoneError = (value: string, options: PhoneRuleOptions = {}): string | undefined => {
+    const { reason } = validatePhone(value, {
+        defaultCountry: options.defaultCountry,
+        allowedCountries: options.allowedCountries,
+        excludedCountries: options.excludedCountries,
+        allowedTypes: options.types,
+    });
+    return reason
+        ? options.errorMessages?.[reason] ?? getErrorMessage(reason, options.locale, options.labels)
+        : undefined;
+};
+
+// A cleared input still reports its calling code ("+90"); forms store that as '' so `required` rules apply
+export const toFormValue = (value: string, iso2: CountryCode): string => {
+    const country = getCountryByIso2(iso2);
+    return country && value === `+${country.callingCode}` ? '' : value;
+};
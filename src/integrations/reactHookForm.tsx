@@ -0,0 +1,88 @@
+import React, { useCallback } from 'react';
+import { useController, FieldPath, FieldPathValue, FieldValues, UseControllerProps, Validate } from 'react-hook-form';
+import { CountryCode } from 'libphonenumber-js';
+import { InternationalPhoneInput, InternationalPhoneInputProps } from '../components/InternationalPhoneInput';
+import { getPhoneError, toFormValue } from './phoneRules';
+
+// --- Interfaces ---
+
+export type ControlledPhoneInputProps<
+    TFieldValues extends FieldValues = FieldValues,
+    TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = UseControllerProps<TFieldValues, TName>
+    & Omit<InternationalPhoneInputProps, 'value' | 'defaultValue' | 'onChange' | 'onBlur' | 'disabled'>
+    & {
+        onChange?: (value: string, iso2: CountryCode) => void;
+    };
+
+// --- Component ---
+
+// `InternationalPhoneInput` bound to a react-hook-form field. The number is validated with the input's own
+// `allowedCountries`, `excludedCountries`, `allowedNumberTypes` and `errorMessages` alongside any `rules`;
+// resolvers replace rules entirely, so use `phoneSchema` from the zod or yup entry point there.
+export const ControlledPhoneInput = <
+    TFieldValues extends FieldValues = FieldValues,
+    TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+    name,
+    control,
+    rules,
+    defaultValue,
+    shouldUnregister,
+    disabled,
+    exact,
+    onChange,
+    error,
+    showErrorText = true,
+    ...inputProps
+}: ControlledPhoneInputProps<TFieldValues, TName>) => {
+    const { allowedCountries, excludedCountries, allowedNumberTypes, errorMessages, locale, labels } = inputProps;
+
+    // Empty fields are left to `required`
+    const validatePhone = useCallback<Validate<FieldPathValue<TFieldValues, TName>, TFieldValues>>(
+        value => (typeof value === 'string' && value
+            ? getPhoneError(value, {
+                allowedCountries,
+                excludedCountries,
+                types: allowedNumberTypes,
+                errorMessages,
+                locale,
+                labels,
+            }) ?? true
+            : true),
+        [allowedCountries, excludedCountries, allowedNumberTypes, errorMessages, locale, labels]
+    );
+
+    const { field, fieldState } = useController({
+        name,
+        control,
+        defaultValue,
+        shouldUnregister,
+        disabled,
+        exact,
+        rules: {
+            ...rules,
+            validate: typeof rules?.validate === 'function'
+                ? { custom: rules.validate, phone: validatePhone }
+                : { ...rules?.validate, phone: validatePhone },
+        },
+    });
+
+    const handleChange = useCallback((value: string, iso2: CountryCode) => {
+        field.onChange(toFormValue(value, iso2));
+        onChange?.(value, iso2);
+    }, [field, onChange]);
+
+    return (
+        <InternationalPhoneInput
+            {...inputProps}
+            ref={field.ref}
+            value={field.value ?? ''}
+            onChange={handleChange}
+            onBlur={field.onBlur}
+            disabled={field.disabled ?? disabled}
+            error={error ?? fieldState.error?.message}
+            showErrorText={showErrorText}
+        />
+    );
+};
@@ -0,0 +1,16 @@
+import { string } from 'yup';
+import { getPhoneError, PhoneRuleOptions } from './phoneRules';
+
+export type { PhoneRuleOptions as PhoneSchemaOptions };
+
+// String schema with the input's validation rules; missing values are left to `.required()` and
+// `.nullable()`, empty strings fail
+export const phoneSchema = (options: PhoneRuleOptions = {}) =>
+    string().test({
+        name: 'phone',
+        test(value, ctx) {
+            if (value === undefined || value === null) return true;
+            const message = getPhoneError(value, options);
+            return message ? ctx.createError({ message }) : true;
+        },
+    });
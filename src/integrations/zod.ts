@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { getPhoneError, PhoneRuleOptions } from './phoneRules';
+
+export type { PhoneRuleOptions as PhoneSchemaOptions };
+
+// String schema with the input's validation rules; empty strings fail, so wrap in `.optional()`
+// or `.or(z.literal(''))` for optional fields
+export const phoneSchema = (options: PhoneRuleOptions = {}) =>
+    z.string().superRefine((value, ctx) => {
+        const message = getPhoneError(value, options);
+        if (message) {
+            ctx.addIssue({ code: 'custom', message });
+        }
+    });
@@ -0,0 +1,56 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { lightTheme, darkTheme, mergeTheme, PhoneInputTheme, PhoneInputThemeOverride, PhoneInputColorScheme } from './theme';
+
+// --- Interfaces ---
+
+export interface PhoneInputThemeProviderProps {
+    theme?: PhoneInputThemeOverride; // Applied in both color schemes
+    lightTheme?: PhoneInputThemeOverride;
+    darkTheme?: PhoneInputThemeOverride;
+    colorScheme?: PhoneInputColorScheme;
+    children: React.ReactNode;
+}
+
+type ThemeContextValue = Omit<PhoneInputThemeProviderProps, 'children'>;
+
+// Without a provider, inputs stay light unless they opt in via `colorScheme`
+const PhoneInputThemeContext = createContext<ThemeContextValue>({ colorScheme: 'light' });
+
+// --- Provider ---
+
+export const PhoneInputThemeProvider = ({
+    theme,
+    lightTheme: lightOverride,
+    darkTheme: darkOverride,
+    colorScheme = 'auto',
+    children,
+}: PhoneInputThemeProviderProps) => {
+    const value = useMemo(
+        () => ({ theme, lightTheme: lightOverride, darkTheme: darkOverride, colorScheme }),
+        [theme, lightOverride, darkOverride, colorScheme]
+    );
+
+    return <PhoneInputThemeContext.Provider value={value}>{children}</PhoneInputThemeContext.Provider>;
+};
+
+// --- Hook ---
+
+// Resolves preset -> provider overrides -> per-instance overrides
+export const usePhoneInputTheme = (override?: PhoneInputThemeOverride, colorScheme?: PhoneInputColorScheme): PhoneInputTheme => {
+    const context = useContext(PhoneInputThemeContext);
+    const systemScheme = useColorScheme();
+
+    const scheme = colorScheme ?? context.colorScheme ?? 'light';
+    const isDark = scheme === 'dark' || (scheme === 'auto' && systemScheme === 'dark');
+
+    return useMemo(
+        () => mergeTheme(
+            isDark ? darkTheme : lightTheme,
+            context.theme,
+            isDark ? context.darkTheme : context.lightTheme,
+            override
+        ),
+        [isDark, context, override]
+    );
+};
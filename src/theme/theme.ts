@@ -0,0 +1,125 @@
+import { TextStyle } from 'react-native';
+
+// --- Interfaces ---
+
+export interface PhoneInputTheme {
+    colors: {
+        background: string;
+        text: string;
+        secondaryText: string;
+        placeholder: string;
+        border: string;
+        error: string;
+        divider: string;
+        disabledBackground: string;
+        surface: string; // Dropdown, modal and list rows
+        searchBackground: string;
+        highlight: string; // Keyboard-highlighted picker row
+        backdrop: string;
+        shadow: string;
+    };
+    radii: {
+        input: number;
+        dropdown: number;
+        sheet: number;
+        flag: number;
+    };
+    spacing: {
+        xs: number;
+        sm: number;
+        md: number;
+        lg: number;
+        inputHeight: number;
+    };
+    typography: {
+        fontFamily?: string;
+        inputSize: number;
+        itemSize: number;
+        secondarySize: number;
+        arrowSize: number;
+        mediumWeight: TextStyle['fontWeight'];
+    };
+}
+
+export type PhoneInputColorScheme = 'light' | 'dark' | 'auto';
+
+// Every section is optional and shallow-merged over the preset
+export type PhoneInputThemeOverride = {
+    [K in keyof PhoneInputTheme]?: Partial<PhoneInputTheme[K]>;
+};
+
+// --- Presets ---
+
+const shared: Omit<PhoneInputTheme, 'colors'> = {
+    radii: {
+        input: 8,
+        dropdown: 8,
+        sheet: 16,
+        flag: 2,
+    },
+    spacing: {
+        xs: 4,
+        sm: 8,
+        md: 12,
+        lg: 16,
+        inputHeight: 56,
+    },
+    typography: {
+        inputSize: 16,
+        itemSize: 15,
+        secondarySize: 14,
+        arrowSize: 10,
+        mediumWeight: '500',
+    },
+};
+
+export const lightTheme: PhoneInputTheme = {
+    ...shared,
+    colors: {
+        background: '#FFFFFF',
+        text: '#111827',
+        secondaryText: '#6B7280',
+        placeholder: '#9CA3AF',
+        border: '#D1D5DB',
+        error: '#EF4444',
+        divider: '#E5E7EB',
+        disabledBackground: '#F9FAFB',
+        surface: '#FFFFFF',
+        searchBackground: '#FAFAFA',
+        highlight: '#EFF6FF',
+        backdrop: 'rgba(0, 0, 0, 0.5)',
+        shadow: '#000',
+    },
+};
+
+export const darkTheme: PhoneInputTheme = {
+    ...shared,
+    colors: {
+        background: '#111827',
+        text: '#F9FAFB',
+        secondaryText: '#9CA3AF',
+        placeholder: '#6B7280',
+        border: '#374151',
+        error: '#F87171',
+        divider: '#374151',
+        disabledBackground: '#1F2937',
+        surface: '#1F2937',
+        searchBackground: '#111827',
+        highlight: '#1E3A5F',
+        backdrop: 'rgba(0, 0, 0, 0.7)',
+        shadow: '#000',
+    },
+};
+
+// --- Helpers ---
+
+export const mergeTheme = (base: PhoneInputTheme, ...overrides: (PhoneInputThemeOverride | undefined)[]): PhoneInputTheme =>
+    overrides.reduce<PhoneInputTheme>((theme, override) => {
+        if (!override) return theme;
+        return {
+            colors: { ...theme.colors, ...override.colors },
+            radii: { ...theme.radii, ...override.radii },
+            spacing: { ...theme.spacing, ...override.spacing },
+            typography: { ...theme.typography, ...override.typography },
+        };
+    }, base);
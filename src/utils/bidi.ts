@@ -0,0 +1,2 @@
+// Keeps "+90" from rendering as "90+" inside right-to-left text
+export const isolateLTR = (text: string, isRTL: boolean) => (isRTL ? `\u2066${text}\u2069` : text);
@@ -0,0 +1,155 @@
+import { countryList, Country } from '../data/countryList';
+import { getTerritories } from '../data/callingCodes';
+
+// --- Interfaces ---
+
+interface SearchEntry {
+    country: Country;
+    iso2: string;
+    terms: string[];
+    territoryOrder: number;
+}
+
+// Lower is better; ties keep list order (preferred countries, then alphabetical)
+enum Rank {
+    Exact = 0,
+    Prefix = 1,
+    WordPrefix = 2,
+    Substring = 3,
+    Fuzzy = 4,
+}
+
+// --- Helpers ---
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+    'ı': 'i',
+    'ß': 'ss',
+    'æ': 'ae',
+    'œ': 'oe',
+    'ø': 'o',
+    'ł': 'l',
+    'đ': 'd',
+    'ð': 'd',
+    'þ': 'th',
+};
+
+// Search also matches English names when a locale is active
+const englishNames = new Map(countryList.map(c => [c.iso2, c.name]));
+
+// "Côte d’Ivoire" -> "cote divoire", "St. Lucia" -> "st lucia"
+const foldText = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[ıßæœøłđðþ]/g, char => SPECIAL_CHARACTERS[char])
+        .replace(/['’`.]/g, '')
+        .replace(/[\s\-_,()]+/g, ' ')
+        .trim();
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+const editDistance = (a: string, b: string): number => {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+    for (let j = 1; j < cols; j++) d[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[rows - 1][cols - 1];
+};
+
+// Short queries are too ambiguous for typo tolerance
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+const rankTerm = (term: string, query: string): Rank | undefined => {
+    if (term === query) return Rank.Exact;
+    if (term.startsWith(query)) return Rank.Prefix;
+    if (term.includes(' ' + query)) return Rank.WordPrefix;
+    if (term.includes(query)) return Rank.Substring;
+
+    const typos = maxTypos(query.length);
+    if (typos === 0) return undefined;
+
+    // Compare against the start of the term and each word, so partial input still matches
+    const words = [term, ...term.split(' ').filter(w => w !== term)];
+    const isClose = words.some(word =>
+        editDistance(query, word.slice(0, query.length)) <= typos ||
+        editDistance(query, word) <= typos
+    );
+    return isClose ? Rank.Fuzzy : undefined;
+};
+
+const rankCallingCode = (callingCode: string, digits: string, isAnchored: boolean): Rank | undefined => {
+    if (callingCode === digits) return Rank.Exact;
+    if (callingCode.startsWith(digits)) return Rank.Prefix;
+    if (!isAnchored && callingCode.includes(digits)) return Rank.Substring;
+    return undefined;
+};
+
+// Position among the territories sharing a calling code; the main one (GB for +44, US for +1) is 0
+const getTerritoryOrder = (country: Country): number => {
+    const territories = getTerritories(country.callingCode);
+    const position = territories.indexOf(country.iso2);
+    return position === -1 ? territories.length : position;
+};
+
+// --- Search ---
+
+export const buildSearchIndex = (countries: Country[]): SearchEntry[] =>
+    countries.map(country => ({
+        country,
+        iso2: country.iso2.toLowerCase(),
+        terms: Array.from(new Set([
+            country.name,
+            englishNames.get(country.iso2) || country.name,
+            ...(country.aliases || []),
+        ].map(foldText))),
+        territoryOrder: getTerritoryOrder(country),
+    }));
+
+export const searchCountries = (index: SearchEntry[], query: string): Country[] => {
+    const folded = foldText(query);
+    if (!folded) return index.map(entry => entry.country);
+
+    // "+44", "0044" and "44" all search by calling code; a prefix anchors the match to the start
+    const isAnchored = /^(\+|00)/.test(folded);
+    const digits = folded.replace(/^(\+|00)/, '').replace(/\s/g, '');
+    const isNumeric = /^\d+$/.test(digits);
+
+    const ranked: { country: Country; rank: Rank; order: number }[] = [];
+
+    index.forEach((entry, order) => {
+        let rank: Rank | undefined;
+
+        if (isNumeric) {
+            rank = rankCallingCode(entry.country.callingCode, digits, isAnchored);
+        } else if (entry.iso2 === folded) {
+            rank = Rank.Exact;
+        } else {
+            for (const term of entry.terms) {
+                const termRank = rankTerm(term, folded);
+                if (termRank !== undefined && (rank === undefined || termRank < rank)) {
+                    rank = termRank;
+                }
+                if (rank === Rank.Exact) break;
+            }
+        }
+
+        if (rank !== undefined) {
+            // Calling code searches list the main territory before others sharing the code
+            ranked.push({ country: entry.country, rank, order: isNumeric ? entry.territoryOrder * index.length + order : order });
+        }
+    });
+
+    return ranked
+        .sort((a, b) => a.rank - b.rank || a.order - b.order)
+        .map(r => r.country);
+};
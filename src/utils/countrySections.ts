@@ -0,0 +1,88 @@
+import { Country } from '../data/countryList';
+
+// --- Interfaces ---
+
+// Rows of the picker list: section headers and countries (a country may appear in several sections)
+export type CountryListItem =
+    | { type: 'header'; key: string; title: string }
+    | { type: 'country'; key: string; country: Country };
+
+export interface CountrySectionIndexEntry {
+    letter: string;
+    index: number; // Position of the letter's header in `items`
+}
+
+export interface CountrySections {
+    items: CountryListItem[];
+    stickyHeaderIndices: number[];
+    letters: CountrySectionIndexEntry[];
+}
+
+interface CountrySectionsInput {
+    countries: Country[];
+    preferred: Country[];
+    recent: Country[];
+    preferredTitle: string;
+    recentTitle: string;
+    locale?: string;
+}
+
+// --- Helpers ---
+
+// "Åland Islands" -> "A", "Österreich" -> "O"; non-Latin scripts keep their first letter
+export const getSectionLetter = (name: string, locale?: string): string =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').charAt(0).toLocaleUpperCase(locale);
+
+const toRows = (countries: Country[], section: string): CountryListItem[] =>
+    countries.map(country => ({ type: 'country', key: `${section}-${country.iso2}`, country }));
+
+// --- Sections ---
+
+// Search results stay a single ranked list
+export const toFlatList = (countries: Country[]): CountryListItem[] => toRows(countries, 'all');
+
+// Preferred, then recent, then one section per initial letter (in list order)
+export const buildCountrySections = ({
+    countries,
+    preferred,
+    recent,
+    preferredTitle,
+    recentTitle,
+    locale,
+}: CountrySectionsInput): CountrySections => {
+    const items: CountryListItem[] = [];
+    const stickyHeaderIndices: number[] = [];
+    const letters: CountrySectionIndexEntry[] = [];
+
+    const addSection = (key: string, title: string, rows: Country[]) => {
+        if (rows.length === 0) return;
+        stickyHeaderIndices.push(items.length);
+        items.push({ type: 'header', key: `header-${key}`, title });
+        items.push(...toRows(rows, key));
+    };
+
+    addSection('preferred', preferredTitle, preferred);
+    addSection('recent', recentTitle, recent);
+
+    // Group rather than split on letter changes, so locale sort quirks never repeat a header
+    const preferredIso2 = new Set(preferred.map(c => c.iso2));
+    const byLetter = new Map<string, Country[]>();
+    countries
+        .filter(country => !preferredIso2.has(country.iso2))
+        .forEach(country => {
+            const letter = getSectionLetter(country.name, locale);
+            const rows = byLetter.get(letter);
+            if (rows) {
+                rows.push(country);
+            } else {
+                byLetter.set(letter, [country]);
+            }
+        });
+
+    byLetter.forEach((rows, letter) => {
+        letters.push({ letter, index: items.length });
+        addSection(`letter-${letter}`, letter, rows);
+    });
+
+    return { items, stickyHeaderIndices, letters };
+};
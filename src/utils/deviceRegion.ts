@@ -0,0 +1,51 @@
+// --- Interfaces ---
+
+// Apps can plug in SIM/carrier or IP-based lookups; return nothing to fall back to the device region
+export type CountryResolver = () => string | null | undefined | Promise<string | null | undefined>;
+
+interface ExpoLocalization {
+    getLocales?: () => { regionCode?: string | null }[];
+}
+
+// --- Helpers ---
+
+// `expo-localization` is optional: used when the app has it installed, `Intl` otherwise
+const loadExpoLocalization = (): ExpoLocalization | undefined => {
+    try {
+        return require('expo-localization');
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// "en-US" -> "US", "zh-Hans-CN" -> "CN", "pt_BR" -> "BR"; "en" has no region
+export const getRegionFromLocale = (locale: string): string | undefined => {
+    const region = locale.split(/[-_]/).slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+    return region?.toUpperCase();
+};
+
+// --- Detection ---
+
+export const getDeviceRegion = (): string | undefined => {
+    try {
+        const regionCode = loadExpoLocalization()?.getLocales?.()[0]?.regionCode;
+        if (regionCode) return regionCode.toUpperCase();
+    } catch (e) { }
+
+    try {
+        return getRegionFromLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// A failing or empty resolver falls back to the device region
+export const detectDeviceCountry = async (resolver?: CountryResolver): Promise<string | undefined> => {
+    if (resolver) {
+        try {
+            const iso2 = await resolver();
+            if (iso2) return iso2.toUpperCase();
+        } catch (e) { }
+    }
+    return getDeviceRegion();
+};
@@ -0,0 +1,56 @@
+// --- Interfaces ---
+
+// Trigger position in window coordinates (`measureInWindow`)
+export interface AnchorRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface DropdownLayout {
+    placement: 'below' | 'above';
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+interface DropdownLayoutInput {
+    anchor: AnchorRect;
+    windowHeight: number;
+    keyboardHeight: number;
+    preferredHeight: number;
+    gap: number; // Between the trigger and the dropdown
+    margin: number; // Kept free at the viewport edges
+    topInset?: number;
+}
+
+// --- Layout ---
+
+// Opens below the trigger unless there is more room above, and shrinks to the space available
+// between the trigger and the viewport edge (or the keyboard)
+export const getDropdownLayout = ({
+    anchor,
+    windowHeight,
+    keyboardHeight,
+    preferredHeight,
+    gap,
+    margin,
+    topInset = 0,
+}: DropdownLayoutInput): DropdownLayout => {
+    const anchorBottom = anchor.y + anchor.height;
+    const spaceBelow = windowHeight - keyboardHeight - margin - (anchorBottom + gap);
+    const spaceAbove = anchor.y - gap - (topInset + margin);
+
+    const placement = spaceBelow >= preferredHeight || spaceBelow >= spaceAbove ? 'below' : 'above';
+    const height = Math.max(0, Math.min(preferredHeight, placement === 'below' ? spaceBelow : spaceAbove));
+
+    return {
+        placement,
+        top: placement === 'below' ? anchorBottom + gap : anchor.y - gap - height,
+        left: anchor.x,
+        width: anchor.width,
+        height,
+    };
+};
@@ -0,0 +1,235 @@
+// Pure phone number helpers shared by the hook and components; no React Native imports,
+// so this module also runs in Node (servers, scripts, tests)
+// `max` metadata is required for number type detection (`getType()`)
+import { AsYouType, validatePhoneNumberLength, CountryCode, NumberType, PhoneNumber } from 'libphonenumber-js/max';
+import { countryList, Country } from '../data/countryList';
+import { getCountryName } from '../data/locales';
+import { getTerritories, getMainTerritory, findTerritory } from '../data/callingCodes';
+
+// --- Interfaces ---
+
+export type PhoneNumberType = Exclude<NumberType, undefined>;
+
+export type PhoneNumberFormat = 'NATIONAL' | 'INTERNATIONAL' | 'E.164' | 'RFC3966';
+
+export type PhoneValidationReason =
+    | 'NOT_A_NUMBER'
+    | 'INVALID_COUNTRY'
+    | 'TOO_SHORT'
+    | 'TOO_LONG'
+    | 'INVALID_LENGTH'
+    | 'INVALID_NUMBER'
+    | 'DISALLOWED_TYPE'
+    | 'DISALLOWED_COUNTRY';
+
+export interface PhoneValidationResult {
+    isValid: boolean;
+    reason: PhoneValidationReason | undefined;
+}
+
+export interface PhoneNumberDetails {
+    iso2: CountryCode;
+    callingCode: string;
+    digits: string;
+    e164: string | undefined;
+    national: string | undefined;
+    international: string | undefined;
+    rfc3966: string | undefined;
+    isValid: boolean;
+    isPossible: boolean;
+    type: NumberType;
+    validationError: PhoneValidationReason | undefined;
+}
+
+export interface PhoneParseOptions {
+    // Country for national numbers; international ("+…") values are detected
+    defaultCountry?: CountryCode;
+    allowedTypes?: PhoneNumberType[];
+}
+
+export interface PhoneValidationOptions extends PhoneParseOptions {
+    // Numbers from other or excluded countries fail with DISALLOWED_COUNTRY
+    allowedCountries?: CountryCode[];
+    excludedCountries?: CountryCode[];
+}
+
+// --- Internal Helpers ---
+
+const toDigits = (text: string) => text.replace(/[^0-9]/g, '');
+
+export const getNumber = (text: string, country: Country): PhoneNumber | undefined => {
+    const asYouType = new AsYouType(country.iso2 as CountryCode);
+    asYouType.input(text.replace(/[^0-9+]/g, ''));
+    return asYouType.getNumber();
+};
+
+export const detectInternational = (text: string) => {
+    const asYouType = new AsYouType();
+    asYouType.input(text);
+    const callingCode = asYouType.getCallingCode();
+    const nationalDigits = callingCode ? toDigits(text).slice(callingCode.length) : '';
+    return {
+        iso2: callingCode ? findTerritory(callingCode, nationalDigits) : undefined,
+        callingCode,
+        nationalDigits,
+    };
+};
+
+// Complete numbers use the national format (with trunk prefix); partial ones format as typed
+export const formatNational = (nationalDigits: string, country: Country): string => {
+    const number = getNumber(nationalDigits, country);
+    return number && number.isValid()
+        ? number.format('NATIONAL')
+        : new AsYouType(country.iso2 as CountryCode).input(nationalDigits);
+};
+
+// E.164 when valid, otherwise the raw `+<callingCode><digits>` the user has typed so far
+export const toChangeValue = (text: string, country: Country): string => {
+    const number = getNumber(text, country);
+    if (number && number.isValid()) {
+        return number.format('E.164');
+    }
+    return '+' + country.callingCode + toDigits(text);
+};
+
+// FIXED_LINE_OR_MOBILE is reported where the two ranges overlap (e.g. NANP), so it satisfies either type
+const isAllowedType = (type: NumberType, allowedTypes?: PhoneNumberType[]): boolean => {
+    if (!allowedTypes || allowedTypes.length === 0) return true;
+    if (!type) return false;
+    if (type === 'FIXED_LINE_OR_MOBILE') {
+        return allowedTypes.some(t => t === 'FIXED_LINE_OR_MOBILE' || t === 'MOBILE' || t === 'FIXED_LINE');
+    }
+    return allowedTypes.includes(type);
+};
+
+// `allowedCountries` also catches numbers that belong to another territory under the same calling code
+// (a Jamaican "876…" number typed with US selected)
+export const getValidationError = (
+    text: string,
+    country: Country,
+    allowedTypes?: PhoneNumberType[],
+    allowedCountries?: string[]
+): PhoneValidationReason | undefined => {
+    const number = getNumber(text, country);
+    if (number && number.isValid()) {
+        if (allowedCountries?.length && number.country && !allowedCountries.includes(number.country)) {
+            return 'DISALLOWED_COUNTRY';
+        }
+        return isAllowedType(number.getType(), allowedTypes) ? undefined : 'DISALLOWED_TYPE';
+    }
+
+    // Length problems are more actionable than a generic "invalid"
+    const lengthError = validatePhoneNumberLength(text.replace(/[^0-9+]/g, ''), country.iso2 as CountryCode);
+    return lengthError || 'INVALID_NUMBER';
+};
+
+export const getDetails = (
+    text: string,
+    country: Country,
+    allowedTypes?: PhoneNumberType[],
+    allowedCountries?: string[]
+): PhoneNumberDetails => {
+    const number = getNumber(text, country);
+    const validationError = getValidationError(text, country, allowedTypes, allowedCountries);
+    return {
+        iso2: country.iso2 as CountryCode,
+        callingCode: country.callingCode,
+        digits: toDigits(text),
+        e164: number?.format('E.164'),
+        national: number?.format('NATIONAL'),
+        international: number?.format('INTERNATIONAL'),
+        rfc3966: number?.format('RFC3966'),
+        isValid: !validationError,
+        isPossible: number ? number.isPossible() : false,
+        type: number?.getType(),
+        validationError,
+    };
+};
+
+// Country plus the national part of `value`: "+1 876…" -> JM + "876…", "0532…" with TR -> TR + "0532…"
+const resolveValue = (value: string, defaultCountry?: CountryCode): { country: Country; national: string } | undefined => {
+    const trimmed = value.trim();
+    if (/^(\+|00)/.test(trimmed)) {
+        const country = detectCountry(trimmed);
+        if (!country) return undefined;
+        return { country, national: detectInternational('+' + trimmed.replace(/^(\+|00)/, '')).nationalDigits };
+    }
+
+    const country = defaultCountry ? getCountryByIso2(defaultCountry) : undefined;
+    return country ? { country, national: trimmed } : undefined;
+};
+
+// --- Countries ---
+
+export const getCountryByIso2 = (iso2: string, locale?: string): Country | undefined => {
+    const country = countryList.find(c => c.iso2 === iso2.toUpperCase());
+    return country && locale ? { ...country, name: getCountryName(country.iso2, locale) } : country;
+};
+
+// Main territory first (US for '1', GB for '44'), then the others sharing the code
+export const getCountriesByCallingCode = (callingCode: string, locale?: string): Country[] => {
+    const code = callingCode.replace(/^(\+|00)/, '');
+    return getTerritories(code)
+        .map(iso2 => getCountryByIso2(iso2, locale))
+        .filter((country): country is Country => !!country);
+};
+
+// Country of an international number ("+44…", "0044…"); shared calling codes are resolved by area code,
+// falling back to the code's main territory while the number is too short to tell
+export const detectCountry = (value: string, locale?: string): Country | undefined => {
+    const trimmed = value.trim();
+    if (!/^(\+|00)/.test(trimmed)) return undefined;
+
+    const { iso2, callingCode } = detectInternational('+' + trimmed.replace(/^(\+|00)/, ''));
+    if (!callingCode) return undefined;
+    const territory = iso2 || getMainTerritory(callingCode);
+    return territory ? getCountryByIso2(territory, locale) : undefined;
+};
+
+// --- Numbers ---
+
+// All formats and validity of a stored or typed number, or undefined when no country can be determined
+export const parsePhone = (value: string, options: PhoneParseOptions = {}): PhoneNumberDetails | undefined => {
+    const resolved = resolveValue(value, options.defaultCountry);
+    return resolved ? getDetails(resolved.national, resolved.country, options.allowedTypes) : undefined;
+};
+
+// E.164 for valid numbers, otherwise undefined
+export const toE164 = (value: string, defaultCountry?: CountryCode): string | undefined => {
+    const details = parsePhone(value, { defaultCountry });
+    return details?.isValid ? details.e164 : undefined;
+};
+
+// Valid numbers in the requested format; incomplete ones are formatted as typed
+export const formatPhone = (value: string, format: PhoneNumberFormat = 'NATIONAL', defaultCountry?: CountryCode): string => {
+    const resolved = resolveValue(value, defaultCountry);
+    if (!resolved) return value;
+
+    const number = getNumber(resolved.national, resolved.country);
+    if (number && number.isValid()) return number.format(format);
+
+    const partial = new AsYouType(resolved.country.iso2 as CountryCode).input(resolved.national);
+    return format === 'NATIONAL' ? partial : `+${resolved.country.callingCode} ${partial}`.trim();
+};
+
+export const validatePhone = (value: string, options: PhoneValidationOptions = {}): PhoneValidationResult => {
+    if (!toDigits(value)) return { isValid: false, reason: 'NOT_A_NUMBER' };
+
+    const resolved = resolveValue(value, options.defaultCountry);
+    if (!resolved) return { isValid: false, reason: 'INVALID_COUNTRY' };
+
+    // Same list the input offers, so both agree on territories under shared calling codes
+    const { allowedCountries, excludedCountries } = options;
+    const available = allowedCountries?.length || excludedCountries?.length
+        ? countryList
+            .filter(c => !allowedCountries?.length || allowedCountries.includes(c.iso2 as CountryCode))
+            .filter(c => !excludedCountries?.includes(c.iso2 as CountryCode))
+            .map(c => c.iso2)
+        : undefined;
+    if (available && !available.includes(resolved.country.iso2)) {
+        return { isValid: false, reason: 'DISALLOWED_COUNTRY' };
+    }
+
+    const reason = getValidationError(resolved.national, resolved.country, options.allowedTypes, available);
+    return { isValid: !reason, reason };
+};
@@ -0,0 +1,23 @@
+import { CountryListItem, getSectionLetter } from './countrySections';
+
+// --- Navigation ---
+
+// Next country row in `step` direction, skipping section headers; stays put at either end.
+// Start from -1 (or `items.length`) to get the first (or last) row.
+export const moveHighlight = (items: CountryListItem[], current: number, step: 1 | -1): number => {
+    for (let index = current + step; index >= 0 && index < items.length; index += step) {
+        if (items[index].type === 'country') return index;
+    }
+    return current >= 0 && current < items.length ? current : -1;
+};
+
+// Next country after `current` starting with `letter`, wrapping around; repeating a letter cycles its countries
+export const findTypeAhead = (items: CountryListItem[], current: number, letter: string, locale?: string): number => {
+    const target = getSectionLetter(letter, locale);
+    for (let offset = 1; offset <= items.length; offset++) {
+        const index = (current + offset + items.length) % items.length;
+        const item = items[index];
+        if (item.type === 'country' && getSectionLetter(item.country.name, locale) === target) return index;
+    }
+    return -1;
+};
@@ -0,0 +1,52 @@
+// --- Interfaces ---
+
+// Matches AsyncStorage / MMKV-style adapters; sync and async implementations both work
+export interface RecentCountriesStorage {
+    getItem: (key: string) => string | null | undefined | Promise<string | null | undefined>;
+    setItem: (key: string, value: string) => void | Promise<void>;
+}
+
+export interface RecentCountriesOptions {
+    limit?: number;
+    storage?: RecentCountriesStorage;
+    storageKey?: string;
+}
+
+export const DEFAULT_RECENT_LIMIT = 5;
+export const DEFAULT_RECENT_STORAGE_KEY = 'expo-intl-phone-number:recent-countries';
+
+// --- Storage ---
+
+export const createMemoryStorage = (): RecentCountriesStorage => {
+    const items = new Map<string, string>();
+    return {
+        getItem: key => items.get(key),
+        setItem: (key, value) => {
+            items.set(key, value);
+        },
+    };
+};
+
+// Shared by every instance without a custom adapter, so recents survive remounts within a session
+export const memoryStorage = createMemoryStorage();
+
+// Corrupt or unreadable entries start a fresh list rather than breaking the picker
+export const loadRecentCountries = async (storage: RecentCountriesStorage, key: string): Promise<string[]> => {
+    try {
+        const raw = await storage.getItem(key);
+        const parsed: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter((iso2): iso2 is string => typeof iso2 === 'string') : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+export const saveRecentCountries = (storage: RecentCountriesStorage, key: string, iso2List: string[]) => {
+    try {
+        Promise.resolve(storage.setItem(key, JSON.stringify(iso2List))).catch(() => { });
+    } catch (e) { }
+};
+
+// Most recent first, without duplicates
+export const addRecentCountry = (iso2List: string[], iso2: string, limit: number): string[] =>
+    [iso2, ...iso2List.filter(c => c !== iso2)].slice(0, limit);